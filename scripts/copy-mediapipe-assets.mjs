@@ -0,0 +1,97 @@
+/**
+ * Copy the MediaPipe tasks-vision assets into public/ so hand tracking is
+ * served locally instead of from a CDN:
+ * 1. The WASM runtime from node_modules/@mediapipe/tasks-vision/wasm.
+ * 2. The hand_landmarker.task model, downloaded once if it is missing.
+ * 3. The TF.js WASM backend binaries, so the WASM fallback works offline.
+ *
+ * Runs on `npm install` (postinstall) and can be re-run with
+ * `npm run copy-mediapipe-assets`.
+ */
+
+import { copyFile, mkdir, readdir, stat, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const wasmSource = join(
+  root,
+  "node_modules",
+  "@mediapipe",
+  "tasks-vision",
+  "wasm"
+);
+const targetDir = join(root, "public", "mediapipe");
+const wasmTarget = join(targetDir, "wasm");
+const modelTarget = join(targetDir, "hand_landmarker.task");
+const tfjsWasmSource = join(
+  root,
+  "node_modules",
+  "@tensorflow",
+  "tfjs-backend-wasm",
+  "dist"
+);
+const tfjsWasmTarget = join(root, "public", "tfjs-wasm");
+const MODEL_URL =
+  "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task";
+
+async function exists(path) {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function copyWasm() {
+  await mkdir(wasmTarget, { recursive: true });
+  const files = await readdir(wasmSource);
+  await Promise.all(
+    files.map((file) =>
+      copyFile(join(wasmSource, file), join(wasmTarget, file))
+    )
+  );
+  console.log(
+    `Copied ${files.length} MediaPipe WASM files to public/mediapipe/wasm`
+  );
+}
+
+async function copyTfjsWasm() {
+  await mkdir(tfjsWasmTarget, { recursive: true });
+  const files = (await readdir(tfjsWasmSource)).filter((file) =>
+    file.endsWith(".wasm")
+  );
+  await Promise.all(
+    files.map((file) =>
+      copyFile(join(tfjsWasmSource, file), join(tfjsWasmTarget, file))
+    )
+  );
+  console.log(`Copied ${files.length} TF.js WASM files to public/tfjs-wasm`);
+}
+
+async function downloadModel() {
+  if (await exists(modelTarget)) {
+    console.log("hand_landmarker.task already present");
+    return;
+  }
+
+  try {
+    const response = await fetch(MODEL_URL);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    await writeFile(modelTarget, Buffer.from(await response.arrayBuffer()));
+    console.log("Downloaded hand_landmarker.task to public/mediapipe");
+  } catch (error) {
+    // Don't fail the install; hand tracking reports the missing model at runtime
+    console.warn(
+      `Could not download hand_landmarker.task (${error.message}). ` +
+        `Download it from ${MODEL_URL} into public/mediapipe/.`
+    );
+  }
+}
+
+await copyWasm();
+await copyTfjsWasm();
+await downloadModel();
@@ -5,6 +5,7 @@ import WebcamCapture from "../components/WebcamCapture";
 
 export default function Home() {
   const [isModelLoaded, setIsModelLoaded] = useState(false);
+  const [loadProgress, setLoadProgress] = useState(0);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
@@ -23,13 +24,27 @@ export default function Home() {
               }`}
             ></div>
             <span className="text-sm text-gray-600">
-              Model Status: {isModelLoaded ? "Loaded" : "Loading..."}
+              Model Status:{" "}
+              {isModelLoaded
+                ? "Loaded"
+                : `Loading... ${Math.round(loadProgress * 100)}%`}
             </span>
           </div>
+          {!isModelLoaded && (
+            <div className="mx-auto mt-2 w-64 h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all duration-200"
+                style={{ width: `${Math.round(loadProgress * 100)}%` }}
+              ></div>
+            </div>
+          )}
         </header>
 
         <main className="flex flex-col items-center">
-          <WebcamCapture onModelLoaded={setIsModelLoaded} />
+          <WebcamCapture
+            onModelLoaded={setIsModelLoaded}
+            onModelLoadProgress={setLoadProgress}
+          />
         </main>
       </div>
     </div>
@@ -1,27 +1,48 @@
 "use client";
 
 import { useEffect, useRef, useState, useCallback } from "react";
-import * as tf from "@tensorflow/tfjs";
-import "@tensorflow/tfjs-backend-webgl";
 import {
-  processYoloOutput,
-  preprocessImageForYolo,
   YoloDetection,
   applyNailColorFilter,
+  mirrorDetections,
 } from "../utils/yolo";
 import {
-  initializeMediaPipeHands,
-  processMediaPipeResults,
+  BackendPreference,
+  YoloInferenceService,
+  getBackendPreference,
+  setBackendPreference,
+} from "../utils/yoloInferenceService";
+import { ModelDescriptor } from "../utils/modelDescriptor";
+import type { TfBackendName } from "../utils/backendManager";
+import {
+  DEFAULT_HAND_TRACKER_OPTIONS,
+  HandTracker,
+  HandTrackerOptions,
   drawHandDetections,
+  getHandRoi,
   HandDetection,
   MediaPipeHandsResult,
-  disposeMediaPipeHands,
 } from "../utils/mediapipe";
 import {
-  matchNailsToFingertips,
+  DEFAULT_ONE_EURO_OPTIONS,
+  HandLandmarkSmoother,
+} from "../utils/oneEuroFilter";
+import {
+  assignNailsToFingertips,
   drawNailFingerMatches,
   NailFingerMatch,
 } from "../utils/nailMatching";
+import { NailTrack, NailTracker } from "../utils/nailTracker";
+import {
+  CALIBRATION_REFERENCES,
+  NailMeasurement,
+  ScaleCalibration,
+  calibrateFromEdge,
+  getCalibratedScale,
+  measureNail,
+} from "../utils/calibration";
+import { NailPoseSmoother } from "../utils/poseSmoother";
+import { NailSizingSession, SizingResult } from "../utils/nailSizing";
 import {
   ThreeNailOverlay,
   ThreeNailOverlayConfig,
@@ -29,16 +50,43 @@ import {
 
 interface WebcamCaptureProps {
   onModelLoaded: (loaded: boolean) => void;
+  onModelLoadProgress?: (fraction: number) => void; // Nail model download, 0-1
 }
 
 type DetectionMode = "nails" | "hands" | "both";
+type CameraFacing = "user" | "environment";
+
+// Hand boxes older than this are too stale to crop nail inference around
+const HAND_ROI_MAX_AGE_MS = 1500;
 
-const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
+// Tracks currently held by mask-only matches while their hand is lost
+const countMaskHeldTracks = (tracks: NailTrack[]) =>
+  tracks.filter((track) => track.match.source === "polygon").length;
+
+const WebcamCapture: React.FC<WebcamCaptureProps> = ({
+  onModelLoaded,
+  onModelLoadProgress,
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const modelRef = useRef<tf.GraphModel | null>(null);
-  const handsModelRef = useRef<any>(null);
+  // Worker-hosted nail model; only set once the model has loaded
+  const modelRef = useRef<YoloInferenceService | null>(null);
+  // Input size and class names read from the model's metadata.yaml
+  const modelDescriptorRef = useRef<ModelDescriptor | null>(null);
+  const handsModelRef = useRef<HandTracker | null>(null);
+  const [handTrackerOptions, setHandTrackerOptions] =
+    useState<HandTrackerOptions>(DEFAULT_HAND_TRACKER_OPTIONS);
+  const [isReconfiguringHands, setIsReconfiguringHands] = useState(false);
+  // Crop around tracked hands for nail inference instead of the full frame
+  const [useHandRoi, setUseHandRoi] = useState(true);
+  const useHandRoiRef = useRef(true);
+  const [nailRoiCount, setNailRoiCount] = useState(0);
+  const [maskHeldNails, setMaskHeldNails] = useState(0);
   const [isWebcamActive, setIsWebcamActive] = useState(false);
+  const [cameraFacing, setCameraFacing] = useState<CameraFacing>("user");
+  // Show a mirrored (selfie) view; detections and landmarks follow it
+  const [mirrorView, setMirrorView] = useState(true);
+  const mirrorViewRef = useRef(true);
   const [detections, setDetections] = useState<YoloDetection[]>([]);
   const [handDetections, setHandDetections] = useState<HandDetection[]>([]);
   const [nailFingerMatches, setNailFingerMatches] = useState<NailFingerMatch[]>(
@@ -48,6 +96,15 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fps, setFps] = useState(0);
+  const [workerTensorCount, setWorkerTensorCount] = useState(0);
+  const [activeBackend, setActiveBackend] = useState<TfBackendName | null>(
+    null
+  );
+  const [backendPreference, setBackendPreferenceState] =
+    useState<BackendPreference>("auto");
+  const [isSwitchingBackend, setIsSwitchingBackend] = useState(false);
+  const [modelFromCache, setModelFromCache] = useState(false);
+  const [modelCacheStatus, setModelCacheStatus] = useState<string | null>(null);
   const animationRef = useRef<number | undefined>(undefined);
   const lastTimeRef = useRef<number>(0);
   const frameCountRef = useRef<number>(0);
@@ -71,6 +128,39 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
     hands: HandDetection[];
     timestamp: number;
   } | null>(null);
+  // Millimetre scale from a marked reference edge (credit card by default)
+  const [calibrationReferenceKey, setCalibrationReferenceKey] =
+    useState("creditCard");
+  const [calibrationEdge, setCalibrationEdge] = useState<"width" | "height">(
+    "width"
+  );
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const calibrationPointsRef = useRef<[number, number][]>([]);
+  const [scaleCalibration, setScaleCalibration] =
+    useState<ScaleCalibration | null>(null);
+  const scaleCalibrationRef = useRef<ScaleCalibration | null>(null);
+  // Keyed by `${handedness}_${fingertipIndex}`, only while calibrated
+  const [nailMeasurements, setNailMeasurements] = useState<
+    Map<string, NailMeasurement>
+  >(new Map());
+  // "Hold still" press-on sizing capture, fed by calibrated measurements
+  const sizingSessionRef = useRef<NailSizingSession | null>(null);
+  const [isSizing, setIsSizing] = useState(false);
+  const [sizingProgress, setSizingProgress] = useState({
+    samples: 0,
+    required: 0,
+  });
+  const [sizingResult, setSizingResult] = useState<SizingResult | null>(null);
+  // Persistent nail tracks the 3D overlay renders from
+  const nailTrackerRef = useRef(new NailTracker());
+  // One Euro filtering of hand landmarks before matching and drawing
+  const landmarkSmootherRef = useRef(new HandLandmarkSmoother());
+  const [landmarkMinCutoff, setLandmarkMinCutoff] = useState(
+    DEFAULT_ONE_EURO_OPTIONS.minCutoff
+  );
+  const [landmarkBeta, setLandmarkBeta] = useState(
+    DEFAULT_ONE_EURO_OPTIONS.beta
+  );
   const [selectedColor, setSelectedColor] = useState({
     r: 255,
     g: 107,
@@ -113,56 +203,8 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
     height: 0,
   });
 
-  // Add smoothing for nail orientations to reduce jitter
-  const nailOrientationHistoryRef = useRef<Map<string, number[]>>(new Map());
-  const smoothingWindowSize = 5; // Number of frames to average
-
-  // Smooth nail orientations to reduce jitter
-  const smoothNailOrientations = useCallback(
-    (matches: NailFingerMatch[]): NailFingerMatch[] => {
-      const history = nailOrientationHistoryRef.current;
-
-      return matches.map((match) => {
-        // Create a unique key for this nail (hand + finger)
-        const key = `${match.handedness}_${match.fingertipIndex}`;
-
-        // Get or create history for this nail
-        if (!history.has(key)) {
-          history.set(key, []);
-        }
-
-        const angles = history.get(key)!;
-
-        // Add current angle to history
-        angles.push(match.nailAngle);
-
-        // Keep only the last N angles
-        if (angles.length > smoothingWindowSize) {
-          angles.shift();
-        }
-
-        // Calculate smoothed angle using circular mean for angles
-        let sumSin = 0;
-        let sumCos = 0;
-        angles.forEach((angle) => {
-          sumSin += Math.sin(angle);
-          sumCos += Math.cos(angle);
-        });
-
-        const smoothedAngle = Math.atan2(
-          sumSin / angles.length,
-          sumCos / angles.length
-        );
-
-        // Return match with smoothed angle
-        return {
-          ...match,
-          nailAngle: smoothedAngle,
-        };
-      });
-    },
-    [] // Removed smoothingWindowSize from dependencies as it's constant
-  );
+  // Smooth each nail's full pose (orientation, position, size) between updates
+  const poseSmootherRef = useRef(new NailPoseSmoother());
 
   // Handle image upload for nail texture
   const handleTextureUpload = useCallback(
@@ -206,6 +248,22 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
     console.log("Nail texture removed");
   }, []);
 
+  // End the sizing capture once it has enough samples or runs out of time.
+  // Called on every update, so a hand leaving the frame can't stall it.
+  const finishSizingIfDone = useCallback(() => {
+    const session = sizingSessionRef.current;
+    if (
+      session &&
+      (session.isComplete() || session.isTimedOut(performance.now()))
+    ) {
+      const result = session.getResult();
+      console.log("Nail sizing result:", result);
+      setSizingResult(result);
+      sizingSessionRef.current = null;
+      setIsSizing(false);
+    }
+  }, []);
+
   // Helper function to check if we have synchronized results for matching
   const trySyncMatchUpdate = useCallback(() => {
     const nailResults = nailResultsRef.current;
@@ -222,128 +280,328 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
     ) {
       const video = videoRef.current;
       if (video && video.videoWidth > 0 && video.videoHeight > 0) {
-        const matches = matchNailsToFingertips(
+        const {
+          matches,
+          unmatchedNails,
+          unmatchedFingertips,
+          rejectedCandidates,
+        } = assignNailsToFingertips(
           nailResults.detections,
           handResults.hands,
           video.videoWidth,
-          video.videoHeight
+          video.videoHeight,
+          { mirrored: mirrorViewRef.current }
+        );
+        const smoothedMatches = poseSmootherRef.current.smooth(
+          matches,
+          performance.now()
         );
-        const smoothedMatches = smoothNailOrientations(matches);
         setNailFingerMatches(smoothedMatches);
+
+        // Millimetre sizes at each hand's current depth
+        const calibration = scaleCalibrationRef.current;
+        const measurements = new Map(
+          calibration
+            ? smoothedMatches.map((match) => [
+                `${match.handedness}_${match.fingertipIndex}`,
+                measureNail(
+                  match,
+                  getCalibratedScale(
+                    calibration,
+                    handResults.hands[match.handIndex] ?? null,
+                    video.videoWidth,
+                    video.videoHeight
+                  )
+                ),
+              ])
+            : []
+        );
+        setNailMeasurements(measurements);
+
+        const session = sizingSessionRef.current;
+        if (session && calibration) {
+          session.addFrame(measurements);
+          setSizingProgress(session.getProgress());
+        }
+        // Nails rejected as implausible for a nearby finger stay hidden;
+        // the rest may hold tracks whose hand lost them
+        const fallbackNails = unmatchedNails.filter(
+          (nail) =>
+            !rejectedCandidates.some(
+              (rejection) => rejection.nailDetection === nail
+            )
+        );
+        setMaskHeldNails(
+          countMaskHeldTracks(
+            nailTrackerRef.current.update(
+              smoothedMatches,
+              performance.now(),
+              fallbackNails
+            )
+          )
+        );
         console.log(
           `Synchronized nail-finger matches: ${
             matches.length
           } matches from frames ${Math.abs(
             nailResults.timestamp - handResults.timestamp
-          ).toFixed(0)}ms apart`
+          ).toFixed(0)}ms apart (${unmatchedNails.length} unmatched nails, ${
+            unmatchedFingertips.length
+          } unmatched fingertips)`
         );
       }
+    } else if (
+      nailResults &&
+      nailResults.detections.length > 0 &&
+      (!handResults ||
+        performance.now() - handResults.timestamp > HAND_ROI_MAX_AGE_MS)
+    ) {
+      // Hand tracking dropped out: keep tracked nails painted from their masks.
+      // Hands run after nails, so a merely older hand result is not a dropout.
+      setMaskHeldNails(
+        countMaskHeldTracks(
+          nailTrackerRef.current.update(
+            [],
+            performance.now(),
+            nailResults.detections
+          )
+        )
+      );
     }
-  }, [smoothNailOrientations]);
 
-  // Load the models
-  const loadModel = useCallback(async () => {
-    try {
-      console.log("Loading models...");
+    finishSizingIfDone();
+  }, [finishSizingIfDone]);
 
-      // Initialize TensorFlow.js backend
-      await tf.ready();
-      console.log("TensorFlow.js backend initialized");
-      console.log("Available backends:", tf.getBackend());
+  // Apply hand tracking results for the current frame
+  const handleHandResults = useCallback(
+    (handsResult: MediaPipeHandsResult) => {
+      // Use ref to get current detection mode so this callback stays stable
+      const currentMode = currentDetectionModeRef.current;
 
-      let nailModelLoaded = false;
-      let handsModelLoaded = false;
+      // Only process if we're still in a mode that uses hands
+      if (currentMode === "hands" || currentMode === "both") {
+        if (handsResult.hands.length > 0) {
+          console.log(
+            `MediaPipe detected ${handsResult.hands.length} hands in ${currentMode} mode`
+          );
 
-      // Load nail segmentation model
-      try {
-        const modelUrl = "/model_web/model.json";
-        const model = await tf.loadGraphModel(modelUrl);
-        modelRef.current = model;
-        nailModelLoaded = true;
+          // Update hand detections in sync
+          setHandDetections(handsResult.hands);
+          syncedHandDetectionsRef.current = handsResult.hands;
+
+          // Store hand results with timestamp for synchronized matching
+          handResultsRef.current = {
+            hands: handsResult.hands,
+            timestamp: performance.now(),
+          };
+
+          // Try to update matches with synchronized data
+          trySyncMatchUpdate();
+        } else {
+          // More conservative clearing - only clear when no hands detected for current mode
+          if (currentMode === "hands") {
+            setHandDetections([]);
+            syncedHandDetectionsRef.current = [];
+            setNailFingerMatches([]); // Clear matches when hands disappear
+            nailTrackerRef.current.update([], performance.now()); // Tracks coast, then expire
+            finishSizingIfDone();
+          } else if (currentMode === "both") {
+            // In both mode, clear hand detections but keep nail detections
+            setHandDetections([]);
+            syncedHandDetectionsRef.current = [];
+            handResultsRef.current = null; // Clear stored hand results
+            setNailFingerMatches([]); // Clear matches since hands are gone
+            nailTrackerRef.current.update([], performance.now()); // Tracks coast, then expire
+            finishSizingIfDone();
+            console.log(
+              "No hands detected in both mode - cleared hand detections and matches"
+            );
+          }
+        }
+      }
+      // If we're in nails-only mode, completely ignore hand detection results
+      // This prevents any interference with nails-only mode
+    },
+    [trySyncMatchUpdate, finishSizingIfDone]
+  );
 
-        console.log("Nail segmentation model loaded successfully");
-        console.log(
-          "Model inputs:",
-          model.inputs.map((input) => ({
-            name: input.name,
-            shape: input.shape,
-            dtype: input.dtype,
-          }))
+  // Load the nail model in the inference worker on the preferred backend
+  const loadNailModel = useCallback(async (): Promise<boolean> => {
+    try {
+      const service = new YoloInferenceService();
+      try {
+        const result = await service.load(
+          "/model_web/model.json",
+          onModelLoadProgress
         );
-        console.log(
-          "Model outputs:",
-          model.outputs.map((output) => ({
-            name: output.name,
-            shape: output.shape,
-            dtype: output.dtype,
+        modelDescriptorRef.current = result.descriptor;
+        setActiveBackend(result.backend);
+        setModelFromCache(result.fromCache);
+        if (result.benchmarks.length > 0) {
+          console.log("Backend benchmark results:", result.benchmarks);
+        }
+      } catch (error) {
+        service.dispose();
+        throw error;
+      }
+      modelRef.current = service;
+      console.log("Nail segmentation model loaded and warmed up in worker");
+      return true;
+    } catch (error) {
+      console.error("Error loading nail segmentation model:", error);
+      return false;
+    }
+  }, [onModelLoadProgress]);
+
+  // Delete the IndexedDB copy so the next visit downloads the model again
+  const clearCachedModel = useCallback(async () => {
+    if (!modelRef.current) return;
+    try {
+      const removed = await modelRef.current.clearCache();
+      setModelFromCache(false);
+      setModelCacheStatus(
+        removed > 0 ? "Cached model cleared" : "No cached model"
+      );
+    } catch (error) {
+      console.error("Error clearing cached model:", error);
+      setModelCacheStatus("Could not clear cached model");
+    }
+  }, []);
+
+  // Collect the two ends of the reference edge from clicks on the canvas
+  const handleCanvasClick = useCallback(
+    (event: React.MouseEvent<HTMLCanvasElement>) => {
+      const video = videoRef.current;
+      if (!isCalibrating || !video || video.videoWidth === 0) return;
+
+      // The canvas shows the whole frame stretched to its box
+      const rect = event.currentTarget.getBoundingClientRect();
+      const point: [number, number] = [
+        ((event.clientX - rect.left) / rect.width) * video.videoWidth,
+        ((event.clientY - rect.top) / rect.height) * video.videoHeight,
+      ];
+      calibrationPointsRef.current.push(point);
+      if (calibrationPointsRef.current.length < 2) return;
+
+      const [start, end] = calibrationPointsRef.current;
+      calibrationPointsRef.current = [];
+      setIsCalibrating(false);
+
+      // The hand closest to the reference sets the depth to follow
+      const midpoint = [(start[0] + end[0]) / 2, (start[1] + end[1]) / 2];
+      const nearestHand =
+        syncedHandDetectionsRef.current
+          .map((hand) => ({
+            hand,
+            distance: Math.hypot(
+              hand.landmarks[9].x * video.videoWidth - midpoint[0],
+              hand.landmarks[9].y * video.videoHeight - midpoint[1]
+            ),
           }))
-        );
+          .sort((a, b) => a.distance - b.distance)[0]?.hand ?? null;
+
+      const calibration = calibrateFromEdge(
+        start,
+        end,
+        CALIBRATION_REFERENCES[calibrationReferenceKey],
+        calibrationEdge,
+        nearestHand,
+        video.videoWidth,
+        video.videoHeight
+      );
+      if (!calibration) {
+        setError("Calibration points are too close together, try again");
+        return;
+      }
+      scaleCalibrationRef.current = calibration;
+      setScaleCalibration(calibration);
+    },
+    [isCalibrating, calibrationReferenceKey, calibrationEdge]
+  );
 
-        // Warm up the model with a dummy input
-        console.log("Warming up nail model...");
-        const dummyInput = tf.zeros([1, 640, 640, 3]);
-        const warmupOutputs = (await model.executeAsync(
-          dummyInput
-        )) as tf.Tensor[];
-        warmupOutputs.forEach((tensor) => tensor.dispose());
-        dummyInput.dispose();
-        console.log("Nail model warmup completed");
-      } catch (error) {
-        console.error("Error loading nail segmentation model:", error);
+  // Start or cancel a "hold still" sizing capture
+  const toggleSizing = useCallback(() => {
+    if (sizingSessionRef.current) {
+      sizingSessionRef.current = null;
+      setIsSizing(false);
+      return;
+    }
+    sizingSessionRef.current = new NailSizingSession(performance.now());
+    setSizingProgress(sizingSessionRef.current.getProgress());
+    setSizingResult(null);
+    setIsSizing(true);
+  }, []);
+
+  const resetCalibration = useCallback(() => {
+    sizingSessionRef.current = null;
+    setIsSizing(false);
+    calibrationPointsRef.current = [];
+    scaleCalibrationRef.current = null;
+    setScaleCalibration(null);
+    setIsCalibrating(false);
+    setNailMeasurements(new Map());
+  }, []);
+
+  // Switch the TF.js backend, reloading the model in a fresh worker
+  const changeBackend = useCallback(
+    async (preference: BackendPreference) => {
+      setBackendPreference(preference);
+      setBackendPreferenceState(preference);
+      setIsSwitchingBackend(true);
+
+      // Stop inference from using the old worker while the new one loads
+      const previousService = modelRef.current;
+      modelRef.current = null;
+      previousService?.dispose();
+      setActiveBackend(null);
+
+      const loaded = await loadNailModel();
+      if (!loaded) {
+        setError(`Nail segmentation model failed to load on ${preference}`);
       }
+      setIsSwitchingBackend(false);
+    },
+    [loadNailModel]
+  );
 
-      // Load MediaPipe hands model
+  // Apply hand tracker settings live; a delegate change recreates the tracker
+  const updateHandTrackerOptions = useCallback(
+    async (options: Partial<HandTrackerOptions>) => {
+      setHandTrackerOptions((previous) => ({ ...previous, ...options }));
+      if (!handsModelRef.current) return;
+
+      setIsReconfiguringHands(true);
       try {
-        const hands = await initializeMediaPipeHands();
-
-        hands.onResults((results: any) => {
-          const handsResult = processMediaPipeResults(results);
-
-          // Use ref to get current detection mode (since callback is set once)
-          const currentMode = currentDetectionModeRef.current;
-
-          // Only process if we're still in a mode that uses hands
-          if (currentMode === "hands" || currentMode === "both") {
-            if (handsResult.hands.length > 0) {
-              console.log(
-                `MediaPipe detected ${handsResult.hands.length} hands in ${currentMode} mode`
-              );
-
-              // Update hand detections in sync
-              setHandDetections(handsResult.hands);
-              syncedHandDetectionsRef.current = handsResult.hands;
-
-              // Store hand results with timestamp for synchronized matching
-              handResultsRef.current = {
-                hands: handsResult.hands,
-                timestamp: performance.now(),
-              };
-
-              // Try to update matches with synchronized data
-              trySyncMatchUpdate();
-            } else {
-              // More conservative clearing - only clear when no hands detected for current mode
-              if (currentMode === "hands") {
-                setHandDetections([]);
-                syncedHandDetectionsRef.current = [];
-                setNailFingerMatches([]); // Clear matches when hands disappear
-              } else if (currentMode === "both") {
-                // In both mode, clear hand detections but keep nail detections
-                setHandDetections([]);
-                syncedHandDetectionsRef.current = [];
-                handResultsRef.current = null; // Clear stored hand results
-                setNailFingerMatches([]); // Clear matches since hands are gone
-                console.log(
-                  "No hands detected in both mode - cleared hand detections and matches"
-                );
-              }
-            }
-          }
-          // If we're in nails-only mode, completely ignore hand detection results
-          // This prevents any interference with nails-only mode
-        });
+        await handsModelRef.current.setOptions(options);
+      } catch (error) {
+        console.error("Error updating hand tracker options:", error);
+        setError("Hand tracker could not be reconfigured");
+      } finally {
+        setIsReconfiguringHands(false);
+      }
+    },
+    []
+  );
 
-        handsModelRef.current = hands;
+  // Load the models
+  const loadModel = useCallback(async () => {
+    try {
+      console.log("Loading models...");
+
+      let nailModelLoaded = false;
+      let handsModelLoaded = false;
+
+      // Load nail segmentation model inside the inference worker
+      setBackendPreferenceState(getBackendPreference());
+      nailModelLoaded = await loadNailModel();
+
+      // Load MediaPipe HandLandmarker from local assets
+      try {
+        // Later changes are applied through setOptions
+        const tracker = new HandTracker(DEFAULT_HAND_TRACKER_OPTIONS);
+        tracker.setMirrored(mirrorViewRef.current);
+        await tracker.initialize();
+        handsModelRef.current = tracker;
         handsModelLoaded = true;
         console.log("MediaPipe hands model loaded successfully");
       } catch (error) {
@@ -369,7 +627,7 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
       );
       onModelLoaded(false);
     }
-  }, [onModelLoaded, smoothNailOrientations, trySyncMatchUpdate]);
+  }, [onModelLoaded, loadNailModel, trySyncMatchUpdate]);
 
   // Initialize webcam
   const startWebcam = useCallback(async () => {
@@ -378,7 +636,7 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
         video: {
           width: { ideal: 640 },
           height: { ideal: 640 },
-          facingMode: "user",
+          facingMode: cameraFacing,
         },
       });
 
@@ -393,6 +651,12 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
       console.error("Error accessing webcam:", error);
       setError("Failed to access webcam. Please check permissions.");
     }
+  }, [cameraFacing]);
+
+  // Front cameras read naturally as a mirror, rear cameras don't
+  const changeCameraFacing = useCallback((facing: CameraFacing) => {
+    setCameraFacing(facing);
+    setMirrorView(facing === "user");
   }, []);
 
   // Improved stop webcam function with better cleanup
@@ -406,11 +670,16 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
     setDetections([]); // Clear detections when stopping
     setHandDetections([]); // Clear hand detections
     setNailFingerMatches([]); // Clear nail-finger matches
-    nailOrientationHistoryRef.current.clear(); // Clear smoothing history
+    poseSmootherRef.current.reset(); // Clear smoothed nail poses
     syncedDetectionsRef.current = []; // Clear synced detections too
     syncedHandDetectionsRef.current = []; // Clear synced hand detections
     nailResultsRef.current = null; // Clear stored nail results
     handResultsRef.current = null; // Clear stored hand results
+    landmarkSmootherRef.current.reset(); // Restart landmark filtering
+    nailTrackerRef.current.reset(); // Drop all nail tracks
+    setMaskHeldNails(0);
+    sizingSessionRef.current = null; // Abandon any sizing capture
+    setIsSizing(false);
     capturedFrameRef.current = null; // Clear captured frame
     frameTimestampRef.current = 0; // Reset frame timestamp
     pendingInferenceRef.current = false; // Reset pending state
@@ -424,23 +693,6 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
       cancelAnimationFrame(animationRef.current);
       animationRef.current = undefined;
     }
-
-    // Force cleanup of any remaining tensors
-    try {
-      const tensorCount = tf.memory().numTensors;
-      if (tensorCount > 10) {
-        // Arbitrary threshold
-        console.warn(
-          `High tensor count detected: ${tensorCount}. Forcing cleanup...`
-        );
-        // Force garbage collection if available
-        if (typeof window !== "undefined" && "gc" in window) {
-          (window as any).gc();
-        }
-      }
-    } catch (error) {
-      console.warn("Error during tensor cleanup:", error);
-    }
   }, []);
 
   // Optimized inference with better frame synchronization and scheduling
@@ -496,50 +748,92 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
     try {
       // Run nail segmentation if needed
       if (shouldRunNails && modelRef.current) {
-        const preprocessed = preprocessImageForYolo(videoRef.current!);
-
-        try {
-          const outputs = (await modelRef.current.executeAsync(
-            preprocessed
-          )) as tf.Tensor[];
-
-          const result = processYoloOutput(
-            outputs,
-            videoWidth,
-            videoHeight,
-            0.4, // Lowered confidence threshold for better detection
-            0.5 // Slightly higher NMS threshold for better deduplication
+        // Crop around recently tracked hands; no hands means full frame
+        const video = videoRef.current!;
+        const recentHands =
+          handResultsRef.current &&
+          currentTime - handResultsRef.current.timestamp < HAND_ROI_MAX_AGE_MS
+            ? handResultsRef.current.hands
+            : [];
+        const rois = useHandRoiRef.current
+          ? recentHands
+              .map((hand) =>
+                getHandRoi(hand, video.videoWidth, video.videoHeight)
+              )
+              // Hands are in view space; crops are taken from the raw frame
+              .map(([x, y, size]) =>
+                mirrorViewRef.current
+                  ? [video.videoWidth - x - size, y, size]
+                  : [x, y, size]
+              )
+              // A crop as large as the frame gains nothing
+              .filter(
+                ([, , size]) =>
+                  size < Math.max(video.videoWidth, video.videoHeight)
+              )
+          : [];
+
+        // Snapshot the current frame; the bitmap is transferred to the worker.
+        // A backend change can dispose the service while it is captured.
+        const service = modelRef.current;
+        const frame = await createImageBitmap(video);
+        if (modelRef.current !== service) {
+          frame.close();
+        } else {
+          const result = await service.detect(
+            frame,
+            {
+              confidenceThreshold: 0.4, // Lowered confidence threshold for better detection
+              nmsThreshold: 0.5, // Slightly higher NMS threshold for better deduplication
+              nmsStrategy: "mask", // Keeps adjacent nails whose boxes overlap on angled hands
+              polygonEpsilon: 1.0, // Keep nail outlines within a pixel of the mask
+            },
+            rois
           );
+          setWorkerTensorCount(result.numTensors);
+          setNailRoiCount(result.roiCount);
+
+          // The worker sees the raw frame; bring detections into view space
+          const viewDetections = mirrorViewRef.current
+            ? mirrorDetections(result.detections, result.frameWidth)
+            : result.detections;
 
           // Update nail detections only if we're still in the right mode
           if (
             currentDetectionModeRef.current === "nails" ||
             currentDetectionModeRef.current === "both"
           ) {
-            setDetections(result.detections);
-            syncedDetectionsRef.current = result.detections;
+            setDetections(viewDetections);
+            syncedDetectionsRef.current = viewDetections;
 
             // Store nail results with timestamp for synchronized matching
             nailResultsRef.current = {
-              detections: result.detections,
+              detections: viewDetections,
               timestamp: performance.now(),
             };
 
             // Try to update matches with synchronized data
             trySyncMatchUpdate();
           }
-
-          // Clean up tensors explicitly
-          outputs.forEach((tensor) => tensor.dispose());
-        } finally {
-          preprocessed.dispose();
         }
       }
 
       // Run hand detection if needed
       if (shouldRunHands && handsModelRef.current) {
         try {
-          await handsModelRef.current.send({ image: videoRef.current });
+          // VIDEO mode tracks across frames using monotonic timestamps
+          const handTimestamp = performance.now();
+          const handsResult = handsModelRef.current.detect(
+            videoRef.current!,
+            handTimestamp
+          );
+          // Smooth landmarks before anything derives geometry from them
+          handleHandResults({
+            hands: landmarkSmootherRef.current.filter(
+              handsResult.hands,
+              handTimestamp
+            ),
+          });
         } catch (error) {
           console.error("Hand detection error:", error);
         }
@@ -564,7 +858,7 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
       setIsProcessing(false);
       pendingInferenceRef.current = false;
     }
-  }, [isProcessing, smoothNailOrientations, trySyncMatchUpdate]);
+  }, [isProcessing, trySyncMatchUpdate, handleHandResults]);
 
   // Optimized drawing with better performance and frame synchronization
   const drawDetections = useCallback(() => {
@@ -588,9 +882,18 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
       canvas.height = displayHeight;
     }
 
-    // Clear and draw the live video feed consistently across all modes
+    // Clear and draw the live video feed consistently across all modes.
+    // Only the video is flipped; overlays are already in view space.
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    ctx.drawImage(video, 0, 0, displayWidth, displayHeight);
+    if (mirrorView) {
+      ctx.save();
+      ctx.translate(displayWidth, 0);
+      ctx.scale(-1, 1);
+      ctx.drawImage(video, 0, 0, displayWidth, displayHeight);
+      ctx.restore();
+    } else {
+      ctx.drawImage(video, 0, 0, displayWidth, displayHeight);
+    }
 
     // Calculate scaling factors for overlay elements
     const scaleX = displayWidth / video.videoWidth;
@@ -616,6 +919,9 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
           point[0] * scaleX,
           point[1] * scaleY,
         ]),
+        maskHoles: detection.maskHoles?.map((hole) =>
+          hole.map((point) => [point[0] * scaleX, point[1] * scaleY])
+        ),
       }));
 
       applyNailColorFilter(canvas, scaledDetections, selectedColor);
@@ -722,7 +1028,12 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
         // Draw confidence labels if enabled
         if (showNailLabels && showConfidenceScores) {
           // Optimized label drawing
-          const label = `${(detection.score * 100).toFixed(0)}%`;
+          // Name the class only when the model can tell several apart
+          const confidenceLabel = `${(detection.score * 100).toFixed(0)}%`;
+          const label =
+            (modelDescriptorRef.current?.numClasses ?? 1) > 1
+              ? `${detection.className} ${confidenceLabel}`
+              : confidenceLabel;
           ctx.font = "bold 12px Arial";
           const textWidth = ctx.measureText(label).width;
 
@@ -759,6 +1070,16 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
       drawNailFingerMatches(ctx, currentMatches, scaleX, scaleY);
     }
 
+    // Mark the reference edge points placed so far
+    if (isCalibrating && calibrationPointsRef.current.length > 0) {
+      ctx.fillStyle = "#ffd400";
+      calibrationPointsRef.current.forEach(([x, y]) => {
+        ctx.beginPath();
+        ctx.arc(x * scaleX, y * scaleY, 5, 0, 2 * Math.PI);
+        ctx.fill();
+      });
+    }
+
     // Update 3D overlay if enabled (separate from match visualization)
     if (show3DOverlay && threeOverlayRef.current) {
       // Update canvas size if needed
@@ -773,9 +1094,10 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
         });
       }
 
-      // Update 3D nail overlays with current matches
+      // Render nail tracks, predicted forward to this frame so nails keep
+      // moving between inferences and survive a missed detection
       threeOverlayRef.current.updateNailOverlays(
-        currentMatches,
+        nailTrackerRef.current.getTracks(performance.now()),
         scaleX,
         scaleY
       );
@@ -783,6 +1105,8 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
   }, [
     enableColorFilter,
     selectedColor,
+    isCalibrating,
+    mirrorView,
     nailFingerMatches,
     show3DOverlay,
     showConfidenceScores,
@@ -885,10 +1209,42 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
     };
   }, [isWebcamActive, processFrame]);
 
-  // Cleanup effect for MediaPipe
+  useEffect(() => {
+    useHandRoiRef.current = useHandRoi;
+  }, [useHandRoi]);
+
+  // Results from before a mirror change are in the other view space
+  useEffect(() => {
+    mirrorViewRef.current = mirrorView;
+    handsModelRef.current?.setMirrored(mirrorView);
+    setDetections([]);
+    setHandDetections([]);
+    setNailFingerMatches([]);
+    syncedDetectionsRef.current = [];
+    syncedHandDetectionsRef.current = [];
+    nailResultsRef.current = null;
+    handResultsRef.current = null;
+    poseSmootherRef.current.reset();
+    landmarkSmootherRef.current.reset();
+    nailTrackerRef.current.reset();
+    setMaskHeldNails(0);
+  }, [mirrorView]);
+
+  // Keep the landmark filters in sync with the smoothing controls
+  useEffect(() => {
+    landmarkSmootherRef.current.setOptions({
+      minCutoff: landmarkMinCutoff,
+      beta: landmarkBeta,
+    });
+  }, [landmarkMinCutoff, landmarkBeta]);
+
+  // Cleanup effect for MediaPipe and the inference worker
   useEffect(() => {
     return () => {
-      disposeMediaPipeHands();
+      handsModelRef.current?.dispose();
+      handsModelRef.current = null;
+      modelRef.current?.dispose();
+      modelRef.current = null;
     };
   }, []);
 
@@ -1056,7 +1412,10 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
               {/* Canvas that shows captured frames with detections */}
               <canvas
                 ref={canvasRef}
-                className="w-full h-full object-cover"
+                onClick={handleCanvasClick}
+                className={`w-full h-full object-cover ${
+                  isCalibrating ? "cursor-crosshair" : ""
+                }`}
                 style={{
                   backgroundColor: "#1f2937", // gray-800 fallback
                 }}
@@ -1108,6 +1467,74 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
             {isWebcamActive ? "🛑 Stop Camera" : "📷 Start Camera"}
           </button>
 
+          {/* Camera and view mirroring */}
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <span className="font-medium">Camera:</span>
+            <select
+              value={cameraFacing}
+              onChange={(e) =>
+                changeCameraFacing(e.target.value as CameraFacing)
+              }
+              disabled={isWebcamActive}
+              className="border rounded px-2 py-1 disabled:opacity-50"
+            >
+              <option value="user">Front</option>
+              <option value="environment">Rear</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-1 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={mirrorView}
+              onChange={(e) => setMirrorView(e.target.checked)}
+              className="rounded text-pink-500 focus:ring-pink-500 focus:ring-1"
+            />
+            Mirror View
+          </label>
+
+          {/* TF.js Backend Selection */}
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <span className="font-medium">Backend:</span>
+            <select
+              value={backendPreference}
+              onChange={(e) =>
+                changeBackend(e.target.value as BackendPreference)
+              }
+              disabled={isSwitchingBackend}
+              className="border rounded px-2 py-1 disabled:opacity-50"
+            >
+              <option value="auto">
+                Auto{activeBackend ? ` (${activeBackend})` : ""}
+              </option>
+              <option value="webgpu">WebGPU</option>
+              <option value="webgl">WebGL</option>
+              <option value="wasm">WASM</option>
+              <option value="cpu">CPU</option>
+            </select>
+            <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
+              {isSwitchingBackend
+                ? "Switching..."
+                : activeBackend
+                ? `Active: ${activeBackend}${modelFromCache ? " · cached" : ""}`
+                : "Not loaded"}
+            </span>
+          </label>
+
+          {/* Offline Model Cache */}
+          <button
+            onClick={clearCachedModel}
+            disabled={!activeBackend || isSwitchingBackend}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-100 hover:bg-gray-200 text-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Remove the model stored in this browser for offline use"
+          >
+            🗑️ Clear Cached Model
+          </button>
+          {modelCacheStatus && (
+            <span className="self-center text-xs text-gray-500">
+              {modelCacheStatus}
+            </span>
+          )}
+
           {/* Color Filter Toggle */}
           <button
             onClick={() => setEnableColorFilter(!enableColorFilter)}
@@ -1272,6 +1699,265 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
                 />
                 Match Arrows & Labels
               </label>
+
+              <label className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={useHandRoi}
+                  onChange={(e) => setUseHandRoi(e.target.checked)}
+                  className="rounded text-pink-500 focus:ring-pink-500 focus:ring-1"
+                />
+                Hand Crops{" "}
+                <span className="text-xs text-gray-500">
+                  ({nailRoiCount > 0 ? `${nailRoiCount} ROI` : "full frame"})
+                </span>
+              </label>
+            </div>
+          )}
+
+          {/* Hand Tracker Settings */}
+          {isWebcamActive && (
+            <div className="flex flex-wrap items-center gap-4">
+              <span className="text-sm font-medium text-gray-700">
+                Hand Tracking:
+              </span>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                Hands
+                <select
+                  value={handTrackerOptions.numHands}
+                  onChange={(e) =>
+                    updateHandTrackerOptions({
+                      numHands: parseInt(e.target.value, 10),
+                    })
+                  }
+                  disabled={isReconfiguringHands}
+                  className="border rounded px-2 py-1 disabled:opacity-50"
+                >
+                  <option value={1}>1</option>
+                  <option value={2}>2</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                Processor
+                <select
+                  value={handTrackerOptions.delegate}
+                  onChange={(e) =>
+                    updateHandTrackerOptions({
+                      delegate: e.target
+                        .value as HandTrackerOptions["delegate"],
+                    })
+                  }
+                  disabled={isReconfiguringHands}
+                  className="border rounded px-2 py-1 disabled:opacity-50"
+                >
+                  <option value="GPU">GPU (faster)</option>
+                  <option value="CPU">CPU (compatible)</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                Detection:{" "}
+                {handTrackerOptions.minHandDetectionConfidence.toFixed(2)}
+                <input
+                  type="range"
+                  min="0.1"
+                  max="0.9"
+                  step="0.05"
+                  value={handTrackerOptions.minHandDetectionConfidence}
+                  onChange={(e) =>
+                    updateHandTrackerOptions({
+                      minHandDetectionConfidence: parseFloat(e.target.value),
+                    })
+                  }
+                  className="w-24"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                Tracking: {handTrackerOptions.minTrackingConfidence.toFixed(2)}
+                <input
+                  type="range"
+                  min="0.1"
+                  max="0.9"
+                  step="0.05"
+                  value={handTrackerOptions.minTrackingConfidence}
+                  onChange={(e) =>
+                    updateHandTrackerOptions({
+                      minTrackingConfidence: parseFloat(e.target.value),
+                      minHandPresenceConfidence: parseFloat(e.target.value),
+                    })
+                  }
+                  className="w-24"
+                />
+              </label>
+            </div>
+          )}
+
+          {/* Millimetre Calibration */}
+          {isWebcamActive && (
+            <div className="flex flex-wrap items-center gap-4">
+              <span className="text-sm font-medium text-gray-700">
+                Calibration:
+              </span>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                Reference
+                <select
+                  value={calibrationReferenceKey}
+                  onChange={(e) => setCalibrationReferenceKey(e.target.value)}
+                  disabled={isCalibrating}
+                  className="border rounded px-2 py-1 disabled:opacity-50"
+                >
+                  {Object.entries(CALIBRATION_REFERENCES).map(
+                    ([key, reference]) => (
+                      <option key={key} value={key}>
+                        {reference.name}
+                      </option>
+                    )
+                  )}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                Edge
+                <select
+                  value={calibrationEdge}
+                  onChange={(e) =>
+                    setCalibrationEdge(e.target.value as "width" | "height")
+                  }
+                  disabled={isCalibrating}
+                  className="border rounded px-2 py-1 disabled:opacity-50"
+                >
+                  <option value="width">
+                    Long (
+                    {CALIBRATION_REFERENCES[calibrationReferenceKey].widthMm}
+                    mm)
+                  </option>
+                  <option value="height">
+                    Short (
+                    {CALIBRATION_REFERENCES[calibrationReferenceKey].heightMm}
+                    mm)
+                  </option>
+                </select>
+              </label>
+              <button
+                onClick={() => {
+                  calibrationPointsRef.current = [];
+                  setIsCalibrating(!isCalibrating);
+                }}
+                className="px-3 py-1 rounded text-sm font-medium bg-yellow-100 hover:bg-yellow-200 text-yellow-800 transition-colors"
+              >
+                {isCalibrating ? "Cancel" : "📏 Calibrate"}
+              </button>
+              {scaleCalibration && !isCalibrating && (
+                <button
+                  onClick={resetCalibration}
+                  className="px-3 py-1 rounded text-sm font-medium bg-gray-100 hover:bg-gray-200 text-gray-700 transition-colors"
+                >
+                  Reset
+                </button>
+              )}
+              <span className="text-xs text-gray-500">
+                {isCalibrating
+                  ? "Hold the reference next to your nails and click both ends of its edge"
+                  : scaleCalibration
+                  ? `${scaleCalibration.pixelsPerMm.toFixed(2)} px/mm ±${(
+                      scaleCalibration.relativeUncertainty * 100
+                    ).toFixed(0)}%`
+                  : "Not calibrated"}
+              </span>
+              <button
+                onClick={toggleSizing}
+                disabled={!scaleCalibration || isCalibrating}
+                className="px-3 py-1 rounded text-sm font-medium bg-pink-100 hover:bg-pink-200 text-pink-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title={
+                  scaleCalibration
+                    ? "Measure press-on sizes over a few steady frames"
+                    : "Calibrate first"
+                }
+              >
+                {isSizing ? "Cancel Sizing" : "💅 Size My Nails"}
+              </button>
+              {isSizing && (
+                <span className="text-xs text-pink-700">
+                  Hold still… {sizingProgress.samples}/{sizingProgress.required}{" "}
+                  steady frames
+                </span>
+              )}
+            </div>
+          )}
+
+          {/* Press-on Size Recommendation */}
+          {sizingResult && (
+            <div className="flex flex-wrap items-center gap-4">
+              <span className="text-sm font-medium text-gray-700">
+                Press-on Sizes:
+              </span>
+              {sizingResult.hands.length === 0 && (
+                <span className="text-xs text-gray-500">
+                  No steady measurements, try again
+                </span>
+              )}
+              {sizingResult.hands.map((hand) => (
+                <span
+                  key={hand.handedness}
+                  className="text-sm bg-pink-50 text-pink-800 px-2 py-1 rounded"
+                  title={hand.fingers
+                    .map(
+                      (finger) =>
+                        `${finger.widthMm.toFixed(
+                          1
+                        )}±${finger.uncertaintyMm.toFixed(1)}mm → size ${
+                          finger.size
+                        } (${(finger.confidence * 100).toFixed(0)}%)`
+                    )
+                    .join("\n")}
+                >
+                  {hand.handedness} (thumb→pinky):{" "}
+                  {hand.sizes
+                    .map((size) => (size === null ? "–" : size))
+                    .join(" · ")}{" "}
+                  <span className="text-xs text-pink-600">
+                    {(hand.confidence * 100).toFixed(0)}% confidence
+                  </span>
+                </span>
+              ))}
+              {!sizingResult.complete && (
+                <span className="text-xs text-gray-500">
+                  Timed out; some fingers have few samples
+                </span>
+              )}
+            </div>
+          )}
+
+          {/* Hand Landmark Smoothing (One Euro filter) */}
+          {isWebcamActive && (
+            <div className="flex flex-wrap items-center gap-4">
+              <span className="text-sm font-medium text-gray-700">
+                Landmark Smoothing:
+              </span>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                Min Cutoff: {landmarkMinCutoff.toFixed(1)} Hz
+                <input
+                  type="range"
+                  min="0.1"
+                  max="5"
+                  step="0.1"
+                  value={landmarkMinCutoff}
+                  onChange={(e) =>
+                    setLandmarkMinCutoff(parseFloat(e.target.value))
+                  }
+                  className="w-24"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                Beta: {landmarkBeta}
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={landmarkBeta}
+                  onChange={(e) => setLandmarkBeta(parseFloat(e.target.value))}
+                  className="w-24"
+                />
+              </label>
             </div>
           )}
 
@@ -1283,6 +1969,15 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
                 {nailFingerMatches.length !== 1 ? "s" : ""} matched
               </span>
             )}
+            {maskHeldNails > 0 && (
+              <span
+                className="text-xs text-amber-700 bg-amber-100 px-2 py-1 rounded"
+                title="Hand tracking lost; nails are posed from their masks"
+              >
+                {maskHeldNails} nail{maskHeldNails !== 1 ? "s" : ""} held from
+                masks
+              </span>
+            )}
 
             {/* Wireframe Toggle */}
             <button
@@ -1435,7 +2130,7 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
             </div>
             <div className="bg-red-50 rounded-lg p-3">
               <div className="text-2xl font-bold text-red-600">
-                {tf.memory().numTensors}
+                {workerTensorCount}
               </div>
               <div className="text-sm text-gray-600">Memory (Tensors)</div>
             </div>
@@ -1454,7 +2149,9 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
                   className="text-sm bg-pink-50 rounded p-2 flex justify-between items-center"
                 >
                   <div className="flex items-center gap-2">
-                    <span>💅 Nail #{index + 1}</span>
+                    <span>
+                      💅 {detection.className ?? "Nail"} #{index + 1}
+                    </span>
                     {detection.mask && (
                       <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded">
                         Mask
@@ -1512,6 +2209,9 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
                 const fingerIndex = fingerTips.indexOf(match.fingertipIndex);
                 const fingerName =
                   fingerIndex >= 0 ? fingerNames[fingerIndex] : "Unknown";
+                const measurement = nailMeasurements.get(
+                  `${match.handedness}_${match.fingertipIndex}`
+                );
 
                 return (
                   <div
@@ -1526,6 +2226,46 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onModelLoaded }) => {
                         {match.nailWidth.toFixed(0)}×
                         {match.nailHeight.toFixed(0)}px
                       </span>
+                      {measurement && (
+                        <span
+                          className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded"
+                          title="Width × length, ±1σ"
+                        >
+                          {measurement.widthMm.toFixed(1)}±
+                          {measurement.widthUncertaintyMm.toFixed(1)} ×{" "}
+                          {measurement.lengthMm.toFixed(1)}±
+                          {measurement.lengthUncertaintyMm.toFixed(1)} mm
+                        </span>
+                      )}
+                      {match.nailShape && (
+                        <span
+                          className="text-xs bg-pink-100 text-pink-700 px-2 py-1 rounded capitalize"
+                          title={`Tip curvature ${match.nailShape.features.tipCurvature.toFixed(
+                            2
+                          )}, aspect ${match.nailShape.features.aspectRatio.toFixed(
+                            2
+                          )}`}
+                        >
+                          {match.nailShape.shape}{" "}
+                          {(match.nailShape.confidence * 100).toFixed(0)}%
+                        </span>
+                      )}
+                      <span
+                        className={`text-xs px-2 py-1 rounded ${
+                          match.facing.facing === "dorsal"
+                            ? "bg-green-100 text-green-700"
+                            : match.facing.facing === "side-on"
+                            ? "bg-orange-100 text-orange-700"
+                            : "bg-gray-200 text-gray-600"
+                        }`}
+                        title={`Nail normal z ${match.facing.normalZ.toFixed(
+                          2
+                        )}, overlay ${(match.facing.opacity * 100).toFixed(
+                          0
+                        )}%`}
+                      >
+                        {match.facing.facing}
+                      </span>
                       <span className="text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded">
                         {((match.nailAngle * 180) / Math.PI).toFixed(0)}°
                       </span>
@@ -0,0 +1,105 @@
+/**
+ * Optimal Assignment (Hungarian Algorithm)
+ *
+ * Solves the rectangular linear assignment problem: pair rows with columns
+ * so the total cost is minimal, each row and column used at most once.
+ * 1. Runs the O(n²m) potential-based Hungarian method (Kuhn–Munkres).
+ * 2. Accepts rectangular matrices; the shorter side is fully assigned.
+ * 3. Treats non-finite costs as forbidden pairs, which are never returned.
+ */
+
+/**
+ * Assign columns to rows at minimum total cost.
+ * Returns, for every row, the assigned column index or -1 when the row is
+ * unassigned (more rows than columns, or only forbidden pairs left).
+ */
+export function solveAssignment(cost: number[][]): number[] {
+  const rows = cost.length;
+  const cols = rows > 0 ? cost[0].length : 0;
+  if (rows === 0 || cols === 0) return new Array(rows).fill(-1);
+
+  // The method below needs rows <= columns; solve the transpose otherwise
+  if (rows > cols) {
+    const transposed = Array.from({ length: cols }, (_, c) =>
+      cost.map((row) => row[c])
+    );
+    const rowForCol = solveAssignment(transposed);
+    const colForRow = new Array(rows).fill(-1);
+    rowForCol.forEach((row, col) => {
+      if (row >= 0) colForRow[row] = col;
+    });
+    return colForRow;
+  }
+
+  // Forbidden pairs get a cost larger than any complete finite assignment
+  let maxFinite = 0;
+  cost.forEach((row) =>
+    row.forEach((value) => {
+      if (Number.isFinite(value))
+        maxFinite = Math.max(maxFinite, Math.abs(value));
+    })
+  );
+  const forbidden = (maxFinite + 1) * (rows + 1);
+  const at = (r: number, c: number) =>
+    Number.isFinite(cost[r][c]) ? cost[r][c] : forbidden;
+
+  // 1-based potentials and matching, column 0 is a virtual start column
+  const u = new Array(rows + 1).fill(0);
+  const v = new Array(cols + 1).fill(0);
+  const rowOfCol = new Array(cols + 1).fill(0);
+  const way = new Array(cols + 1).fill(0);
+
+  for (let r = 1; r <= rows; r++) {
+    rowOfCol[0] = r;
+    let col0 = 0;
+    const minSlack = new Array(cols + 1).fill(Infinity);
+    const used = new Array(cols + 1).fill(false);
+
+    // Grow an alternating path until it reaches a free column
+    do {
+      used[col0] = true;
+      const r0 = rowOfCol[col0];
+      let delta = Infinity;
+      let col1 = 0;
+
+      for (let c = 1; c <= cols; c++) {
+        if (used[c]) continue;
+        const slack = at(r0 - 1, c - 1) - u[r0] - v[c];
+        if (slack < minSlack[c]) {
+          minSlack[c] = slack;
+          way[c] = col0;
+        }
+        if (minSlack[c] < delta) {
+          delta = minSlack[c];
+          col1 = c;
+        }
+      }
+
+      for (let c = 0; c <= cols; c++) {
+        if (used[c]) {
+          u[rowOfCol[c]] += delta;
+          v[c] -= delta;
+        } else {
+          minSlack[c] -= delta;
+        }
+      }
+      col0 = col1;
+    } while (rowOfCol[col0] !== 0);
+
+    // Flip the path to include the new row
+    do {
+      const col1 = way[col0];
+      rowOfCol[col0] = rowOfCol[col1];
+      col0 = col1;
+    } while (col0 !== 0);
+  }
+
+  const colForRow = new Array(rows).fill(-1);
+  for (let c = 1; c <= cols; c++) {
+    const r = rowOfCol[c];
+    if (r > 0 && Number.isFinite(cost[r - 1][c - 1])) {
+      colForRow[r - 1] = c - 1;
+    }
+  }
+  return colForRow;
+}
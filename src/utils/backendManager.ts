@@ -0,0 +1,115 @@
+/**
+ * TensorFlow.js Backend Manager
+ *
+ * Picks the backend the nail model runs on instead of assuming WebGL:
+ * 1. Probes WebGPU, WebGL, WASM and CPU, in that order of preference.
+ * 2. Benchmarks a warmup pass of the model on every backend that initializes.
+ * 3. Activates the fastest one, or a forced backend when one is requested.
+ *
+ * Runs inside the inference worker; the choice is remembered on the main
+ * thread by `YoloInferenceService`.
+ */
+
+import * as tf from "@tensorflow/tfjs";
+import "@tensorflow/tfjs-backend-webgl";
+import "@tensorflow/tfjs-backend-webgpu";
+import { setWasmPaths } from "@tensorflow/tfjs-backend-wasm";
+
+export type TfBackendName = "webgpu" | "webgl" | "wasm" | "cpu";
+
+export const BACKEND_PRIORITY: TfBackendName[] = [
+  "webgpu",
+  "webgl",
+  "wasm",
+  "cpu",
+];
+
+export interface BackendBenchmark {
+  backend: TfBackendName;
+  available: boolean;
+  warmupTime?: number; // First pass in ms, includes shader/kernel compilation
+  inferenceTime?: number; // Steady-state pass in ms, used for ranking
+  error?: string;
+}
+
+// WASM binaries are served from public/, copied there on install by
+// scripts/copy-mediapipe-assets.mjs
+setWasmPaths("/tfjs-wasm/");
+
+/**
+ * Try to initialize and activate a backend
+ */
+export async function activateBackend(
+  backend: TfBackendName
+): Promise<boolean> {
+  try {
+    const activated = await tf.setBackend(backend);
+    if (activated) {
+      await tf.ready();
+    }
+    return activated;
+  } catch (error) {
+    console.warn(`TF.js backend "${backend}" is not available:`, error);
+    return false;
+  }
+}
+
+/**
+ * Time `runPass` on each backend that initializes. The pass runs twice: the
+ * first includes one-off compilation, the second is the steady-state cost.
+ */
+export async function benchmarkBackends(
+  runPass: () => Promise<void>,
+  backends: TfBackendName[] = BACKEND_PRIORITY
+): Promise<BackendBenchmark[]> {
+  const results: BackendBenchmark[] = [];
+
+  for (const backend of backends) {
+    if (!(await activateBackend(backend))) {
+      results.push({ backend, available: false });
+      continue;
+    }
+
+    try {
+      let start = performance.now();
+      await runPass();
+      const warmupTime = performance.now() - start;
+
+      start = performance.now();
+      await runPass();
+      const inferenceTime = performance.now() - start;
+
+      results.push({ backend, available: true, warmupTime, inferenceTime });
+      console.log(
+        `Backend ${backend}: warmup ${warmupTime.toFixed(
+          1
+        )}ms, inference ${inferenceTime.toFixed(1)}ms`
+      );
+    } catch (error) {
+      results.push({
+        backend,
+        available: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      console.warn(`Benchmark failed on backend ${backend}:`, error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Fastest backend from a benchmark, or null if none ran the model
+ */
+export function pickFastestBackend(
+  results: BackendBenchmark[]
+): TfBackendName | null {
+  let best: BackendBenchmark | null = null;
+  for (const result of results) {
+    if (!result.available || result.inferenceTime === undefined) continue;
+    if (!best || result.inferenceTime < best.inferenceTime!) {
+      best = result;
+    }
+  }
+  return best ? best.backend : null;
+}
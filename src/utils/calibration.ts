@@ -0,0 +1,151 @@
+/**
+ * Real-World Scale Calibration
+ *
+ * Converts nail sizes from frame pixels to millimetres:
+ * 1. The user holds a reference of known size (a credit card by default)
+ *    next to the hand and marks both ends of one of its edges.
+ * 2. The marked length gives the pixels-per-mm scale at hand depth.
+ * 3. The scale follows the hand as it moves closer or further away, using the
+ *    change in the hand's apparent size since calibration.
+ * 4. Every measurement carries a 1-sigma uncertainty from click precision,
+ *    reference placement, hand tracking and the mask outline.
+ */
+
+import { HandDetection } from "./mediapipe";
+import { calculateMillimetresPerPixel, NailFingerMatch } from "./nailMatching";
+
+export interface CalibrationReference {
+  name: string;
+  widthMm: number; // Long edge
+  heightMm: number; // Short edge
+}
+
+export const CALIBRATION_REFERENCES: Record<string, CalibrationReference> = {
+  creditCard: { name: "Credit card (ID-1)", widthMm: 85.6, heightMm: 53.98 },
+  euroCoin: { name: "1 euro coin", widthMm: 23.25, heightMm: 23.25 },
+  usQuarter: { name: "US quarter", widthMm: 24.26, heightMm: 24.26 },
+};
+
+export interface ScaleCalibration {
+  reference: CalibrationReference;
+  edge: "width" | "height"; // Which reference edge was marked
+  pixelsPerMm: number; // Frame pixels per mm at calibration time
+  relativeUncertainty: number; // 1-sigma, as a fraction of pixelsPerMm
+  handMmPerPixel: number | null; // Hand-model scale at calibration, for depth tracking
+}
+
+export interface NailMeasurement {
+  widthMm: number;
+  lengthMm: number;
+  widthUncertaintyMm: number; // 1-sigma
+  lengthUncertaintyMm: number; // 1-sigma
+}
+
+// Assumed 1-sigma error of one marked point, frame pixels
+const CLICK_PRECISION_PX = 2;
+// The reference is held near, not exactly at, the nails' depth
+const PLACEMENT_UNCERTAINTY = 0.03;
+// Landmark noise in the hand-size ratio used to follow depth
+const DEPTH_TRACKING_UNCERTAINTY = 0.03;
+// Mask outline error per nail dimension, frame pixels
+const OUTLINE_PRECISION_PX = 1.5;
+
+/**
+ * Calibrate from the two marked ends of a reference edge, in frame pixels.
+ * Pass the hand held next to the reference so the scale can follow it.
+ * Returns null when the marked points are too close to be usable.
+ */
+export function calibrateFromEdge(
+  start: [number, number],
+  end: [number, number],
+  reference: CalibrationReference,
+  edge: "width" | "height",
+  hand: HandDetection | null,
+  frameWidth: number,
+  frameHeight: number
+): ScaleCalibration | null {
+  const lengthPx = Math.hypot(end[0] - start[0], end[1] - start[1]);
+  if (lengthPx < 20) {
+    console.warn(`Calibration edge too short: ${lengthPx.toFixed(1)}px`);
+    return null;
+  }
+
+  const lengthMm = edge === "width" ? reference.widthMm : reference.heightMm;
+  const clickUncertainty = (Math.SQRT2 * CLICK_PRECISION_PX) / lengthPx;
+
+  const calibration: ScaleCalibration = {
+    reference,
+    edge,
+    pixelsPerMm: lengthPx / lengthMm,
+    relativeUncertainty: Math.hypot(clickUncertainty, PLACEMENT_UNCERTAINTY),
+    handMmPerPixel: hand
+      ? calculateMillimetresPerPixel(hand, frameWidth, frameHeight)
+      : null,
+  };
+  console.log("Scale calibration:", calibration);
+  return calibration;
+}
+
+/**
+ * Pixels-per-mm at the given hand's current depth.
+ * Without a usable hand the calibration-time scale is returned as is.
+ */
+export function getCalibratedScale(
+  calibration: ScaleCalibration,
+  hand: HandDetection | null,
+  frameWidth: number,
+  frameHeight: number
+): { pixelsPerMm: number; relativeUncertainty: number } {
+  const handMmPerPixel = hand
+    ? calculateMillimetresPerPixel(hand, frameWidth, frameHeight)
+    : null;
+
+  if (calibration.handMmPerPixel === null || handMmPerPixel === null) {
+    return {
+      pixelsPerMm: calibration.pixelsPerMm,
+      relativeUncertainty: calibration.relativeUncertainty,
+    };
+  }
+
+  // A closer hand covers more pixels per mm; the hand model's own size
+  // assumption cancels out in the ratio
+  return {
+    pixelsPerMm:
+      calibration.pixelsPerMm * (calibration.handMmPerPixel / handMmPerPixel),
+    relativeUncertainty: Math.hypot(
+      calibration.relativeUncertainty,
+      DEPTH_TRACKING_UNCERTAINTY
+    ),
+  };
+}
+
+/**
+ * Nail width and length in millimetres with 1-sigma uncertainties.
+ * Length is corrected for foreshortening when the finger tilts towards the camera.
+ */
+export function measureNail(
+  match: NailFingerMatch,
+  scale: { pixelsPerMm: number; relativeUncertainty: number }
+): NailMeasurement {
+  const lengthInPlane = Math.max(
+    0.3,
+    Math.hypot(match.orientation.zAxis[0], match.orientation.zAxis[1])
+  );
+
+  const widthMm = match.nailWidth / scale.pixelsPerMm;
+  const lengthMm = match.nailHeight / scale.pixelsPerMm / lengthInPlane;
+  const outlineMm = OUTLINE_PRECISION_PX / scale.pixelsPerMm;
+
+  return {
+    widthMm,
+    lengthMm,
+    widthUncertaintyMm: Math.hypot(
+      outlineMm,
+      widthMm * scale.relativeUncertainty
+    ),
+    lengthUncertaintyMm: Math.hypot(
+      outlineMm / lengthInPlane,
+      lengthMm * scale.relativeUncertainty
+    ),
+  };
+}
@@ -0,0 +1,296 @@
+/**
+ * Binary Mask Contour Tracing
+ *
+ * This module turns binary masks into ordered polygon boundaries:
+ * 1. Suzuki–Abe border following to trace every outer boundary and hole in order.
+ * 2. Border hierarchy so holes can be attributed to the component they belong to.
+ * 3. Douglas–Peucker simplification of closed rings with a configurable epsilon.
+ *
+ * Points are `[x, y]` pixel-centre coordinates in mask space.
+ */
+
+export interface Contour {
+  points: number[][]; // Ordered boundary pixels, not explicitly closed
+  isHole: boolean;
+  parent: number; // Index of the enclosing contour, -1 for the mask border
+  area: number; // Absolute enclosed area in pixels
+}
+
+// 8-connected neighbours in clockwise order (image coordinates, y down),
+// starting east: E, SE, S, SW, W, NW, N, NE
+const NEIGHBOR_DX = [1, 1, 0, -1, -1, -1, 0, 1];
+const NEIGHBOR_DY = [0, 1, 1, 1, 0, -1, -1, -1];
+
+function neighborDirection(dx: number, dy: number): number {
+  for (let d = 0; d < 8; d++) {
+    if (NEIGHBOR_DX[d] === dx && NEIGHBOR_DY[d] === dy) return d;
+  }
+  return -1;
+}
+
+/**
+ * Absolute area of a closed polygon using the shoelace formula
+ */
+export function polygonArea(points: number[][]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(area) / 2;
+}
+
+/**
+ * Trace all outer boundaries and holes of a binary mask
+ * (Suzuki & Abe, "Topological Structural Analysis of Digitized Binary Images
+ * by Border Following", 1985).
+ */
+export function traceContours(
+  data: ArrayLike<number>,
+  width: number,
+  height: number
+): Contour[] {
+  // Work on a copy padded by one background pixel on every side so border
+  // following never has to bounds-check
+  const paddedWidth = width + 2;
+  const paddedHeight = height + 2;
+  const labels = new Int32Array(paddedWidth * paddedHeight);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      labels[(y + 1) * paddedWidth + (x + 1)] = data[y * width + x] ? 1 : 0;
+    }
+  }
+
+  const at = (x: number, y: number) => labels[y * paddedWidth + x];
+
+  const contours: Contour[] = [];
+  // Border number 1 is the frame around the image, which behaves like a hole
+  const borderIsHole: boolean[] = [true, true];
+  const borderParent: number[] = [-1, -1];
+  let nbd = 1;
+
+  for (let y = 1; y < paddedHeight - 1; y++) {
+    let lnbd = 1;
+
+    for (let x = 1; x < paddedWidth - 1; x++) {
+      const value = at(x, y);
+      let startDx = 0;
+      let isHole = false;
+
+      if (value === 1 && at(x - 1, y) === 0) {
+        // Outer border starts here
+        startDx = -1;
+      } else if (value >= 1 && at(x + 1, y) === 0) {
+        // Hole border starts here
+        startDx = 1;
+        isHole = true;
+        if (value > 1) lnbd = value;
+      } else {
+        if (value !== 0 && value !== 1) lnbd = Math.abs(value);
+        continue;
+      }
+
+      nbd++;
+
+      // Hierarchy: the new border's parent depends on the type of the
+      // last border met on this row (LNBD)
+      const parentBorder =
+        isHole === borderIsHole[lnbd] ? borderParent[lnbd] : lnbd;
+      borderIsHole[nbd] = isHole;
+      borderParent[nbd] = parentBorder;
+
+      const points = followBorder(labels, paddedWidth, x, y, startDx, nbd);
+
+      contours.push({
+        points,
+        isHole,
+        // Border numbers start at 2 for the first contour
+        parent: parentBorder >= 2 ? parentBorder - 2 : -1,
+        area: polygonArea(points),
+      });
+
+      const updated = at(x, y);
+      if (updated !== 1) lnbd = Math.abs(updated);
+    }
+  }
+
+  return contours;
+}
+
+/**
+ * Follow one border starting at (startX, startY), labelling it with `nbd`.
+ * Returns the border pixels in mask coordinates (padding removed).
+ */
+function followBorder(
+  labels: Int32Array,
+  stride: number,
+  startX: number,
+  startY: number,
+  startDx: number,
+  nbd: number
+): number[][] {
+  const at = (x: number, y: number) => labels[y * stride + x];
+  const set = (x: number, y: number, v: number) => {
+    labels[y * stride + x] = v;
+  };
+
+  const points: number[][] = [];
+
+  // 3.1: search clockwise from the starting neighbour for a non-zero pixel
+  const startDir = neighborDirection(startDx, 0);
+  let firstDir = -1;
+  for (let k = 0; k < 8; k++) {
+    const d = (startDir + k) % 8;
+    if (at(startX + NEIGHBOR_DX[d], startY + NEIGHBOR_DY[d]) !== 0) {
+      firstDir = d;
+      break;
+    }
+  }
+
+  if (firstDir < 0) {
+    // Isolated pixel
+    set(startX, startY, -nbd);
+    points.push([startX - 1, startY - 1]);
+    return points;
+  }
+
+  const x1 = startX + NEIGHBOR_DX[firstDir];
+  const y1 = startY + NEIGHBOR_DY[firstDir];
+  let x2 = x1;
+  let y2 = y1;
+  let x3 = startX;
+  let y3 = startY;
+
+  for (;;) {
+    points.push([x3 - 1, y3 - 1]);
+
+    // 3.3: search counter-clockwise, starting after (x2, y2), for the next
+    // non-zero neighbour of (x3, y3)
+    const fromDir = neighborDirection(x2 - x3, y2 - y3);
+    let x4 = x3;
+    let y4 = y3;
+    let examinedEast = false;
+    for (let k = 1; k <= 8; k++) {
+      const d = (fromDir - k + 8) % 8;
+      const nx = x3 + NEIGHBOR_DX[d];
+      const ny = y3 + NEIGHBOR_DY[d];
+      if (d === 0) examinedEast = true;
+      if (at(nx, ny) !== 0) {
+        x4 = nx;
+        y4 = ny;
+        break;
+      }
+    }
+
+    // 3.4: label the current pixel
+    if (examinedEast && at(x3 + 1, y3) === 0) {
+      set(x3, y3, -nbd);
+    } else if (at(x3, y3) === 1) {
+      set(x3, y3, nbd);
+    }
+
+    // 3.5: stop once we are back at the start, entering the same way
+    if (x4 === startX && y4 === startY && x3 === x1 && y3 === y1) break;
+
+    x2 = x3;
+    y2 = y3;
+    x3 = x4;
+    y3 = y4;
+  }
+
+  return points;
+}
+
+function perpendicularDistance(
+  point: number[],
+  start: number[],
+  end: number[]
+): number {
+  const dx = end[0] - start[0];
+  const dy = end[1] - start[1];
+  const lengthSq = dx * dx + dy * dy;
+
+  if (lengthSq === 0) {
+    return Math.hypot(point[0] - start[0], point[1] - start[1]);
+  }
+
+  return (
+    Math.abs(
+      dy * point[0] - dx * point[1] + end[0] * start[1] - end[1] * start[0]
+    ) / Math.sqrt(lengthSq)
+  );
+}
+
+/**
+ * Douglas–Peucker simplification of an open polyline
+ */
+function simplifyPolyline(points: number[][], epsilon: number): number[][] {
+  if (points.length <= 2) return points.slice();
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = perpendicularDistance(
+        points[i],
+        points[first],
+        points[last]
+      );
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+
+    if (index >= 0 && maxDistance > epsilon) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Douglas–Peucker simplification of a closed ring.
+ * The ring is split at its two mutually distant points and each half is
+ * simplified on its own, so the result does not depend on where tracing began.
+ */
+export function simplifyClosedPolygon(
+  points: number[][],
+  epsilon: number
+): number[][] {
+  if (points.length <= 3 || epsilon <= 0) return points.slice();
+
+  // Farthest point from the first one is a stable second anchor
+  let farthest = 0;
+  let maxDistance = -1;
+  for (let i = 1; i < points.length; i++) {
+    const distance = Math.hypot(
+      points[i][0] - points[0][0],
+      points[i][1] - points[0][1]
+    );
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      farthest = i;
+    }
+  }
+
+  const firstHalf = simplifyPolyline(points.slice(0, farthest + 1), epsilon);
+  const secondHalf = simplifyPolyline(
+    [...points.slice(farthest), points[0]],
+    epsilon
+  );
+
+  // Drop the shared anchors from the second half
+  const simplified = [...firstHalf, ...secondHalf.slice(1, -1)];
+  return simplified.length >= 3 ? simplified : points.slice();
+}
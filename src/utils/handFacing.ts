@@ -0,0 +1,80 @@
+/**
+ * Hand Facing Estimation
+ *
+ * Decides which side of each finger the camera sees:
+ * 1. The palm normal from the nail orientation basis (already corrected for
+ *    handedness and mirroring) is made perpendicular to the finger's distal
+ *    phalanx, so a curled finger's nail turns away with the fingertip.
+ * 2. The resulting nail normal's camera-facing component classifies the
+ *    finger as dorsal (nail visible), side-on or palmar (finger pad visible).
+ * 3. Overlays are drawn fully on dorsal fingers, faded on side-on fingers and
+ *    hidden on palmar ones, where a "nail" can only be a false positive.
+ */
+
+export type FingerFacing = "dorsal" | "side-on" | "palmar";
+
+export interface HandFacingOptions {
+  dorsalThreshold: number; // Normal z at and above which the nail faces the camera
+  palmarThreshold: number; // Normal z at and below which the pad faces the camera
+}
+
+export const DEFAULT_HAND_FACING_OPTIONS: HandFacingOptions = {
+  dorsalThreshold: 0.3,
+  palmarThreshold: -0.3,
+};
+
+export interface FingerFacingEstimate {
+  facing: FingerFacing;
+  normalZ: number; // Camera-facing component of the nail normal, -1 to 1
+  opacity: number; // Overlay opacity factor, 0 (hidden) to 1
+}
+
+/**
+ * Classify a camera-facing component against the thresholds and map it to
+ * an overlay opacity that ramps linearly across the side-on band
+ */
+export function classifyFacing(
+  normalZ: number,
+  options: HandFacingOptions = DEFAULT_HAND_FACING_OPTIONS
+): FingerFacingEstimate {
+  const { dorsalThreshold, palmarThreshold } = options;
+  if (normalZ >= dorsalThreshold) {
+    return { facing: "dorsal", normalZ, opacity: 1 };
+  }
+  if (normalZ <= palmarThreshold) {
+    return { facing: "palmar", normalZ, opacity: 0 };
+  }
+  return {
+    facing: "side-on",
+    normalZ,
+    opacity: (normalZ - palmarThreshold) / (dorsalThreshold - palmarThreshold),
+  };
+}
+
+/**
+ * Facing of one finger from the palm normal and its distal phalanx direction
+ * (DIP to TIP), both in the Y-up, camera-towards-+z frame of nailMatching.
+ * Without a usable phalanx the palm normal alone decides.
+ */
+export function estimateFingerFacing(
+  palmNormal: [number, number, number],
+  distalDirection: [number, number, number] | null,
+  options: HandFacingOptions = DEFAULT_HAND_FACING_OPTIONS
+): FingerFacingEstimate {
+  const length = distalDirection ? Math.hypot(...distalDirection) : 0;
+  if (!distalDirection || length < 1e-6) {
+    return classifyFacing(palmNormal[2], options);
+  }
+
+  const d = distalDirection.map((c) => c / length);
+  const along =
+    palmNormal[0] * d[0] + palmNormal[1] * d[1] + palmNormal[2] * d[2];
+  const projected = palmNormal.map((c, i) => c - along * d[i]);
+  const projectedLength = Math.hypot(...projected);
+
+  // A phalanx pointing along the palm normal leaves the nail edge-on
+  return classifyFacing(
+    projectedLength > 1e-6 ? projected[2] / projectedLength : 0,
+    options
+  );
+}
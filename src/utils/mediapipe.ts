@@ -1,7 +1,32 @@
-// MediaPipe types and utilities
+/**
+ * MediaPipe hand tracking types and utilities
+ *
+ * Hands are tracked with the tasks-vision `HandLandmarker` in VIDEO mode.
+ * The WASM runtime and the `hand_landmarker.task` model are served from
+ * `public/mediapipe/` (copied there by `scripts/copy-mediapipe-assets.mjs`),
+ * so hand tracking works without internet access.
+ *
+ * Results are returned in view space: handedness names the person's actual
+ * hand, and coordinates are flipped horizontally when the view is mirrored.
+ */
+import type {
+  HandLandmarker,
+  HandLandmarkerResult,
+} from "@mediapipe/tasks-vision";
+
+export const MEDIAPIPE_WASM_PATH = "/mediapipe/wasm";
+export const HAND_LANDMARKER_MODEL_PATH = "/mediapipe/hand_landmarker.task";
+
+export interface HandLandmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
 export interface HandDetection {
-  landmarks: Array<{ x: number; y: number; z: number }>;
-  handedness: string; // "Left" or "Right"
+  landmarks: HandLandmark[]; // Normalized to the frame, z relative to the wrist
+  worldLandmarks?: HandLandmark[]; // Metres, origin at the hand's geometric centre
+  handedness: string; // "Left" or "Right", the person's actual hand
   score: number;
 }
 
@@ -9,20 +34,6 @@ export interface MediaPipeHandsResult {
   hands: HandDetection[];
 }
 
-// Simple type definitions to avoid import conflicts
-interface MediaPipeResults {
-  multiHandLandmarks?: Array<Array<{ x: number; y: number; z: number }>>;
-  multiHandedness?: Array<{ label: string; score: number }>;
-  image?: any;
-}
-
-interface MediaPipeHands {
-  setOptions(options: any): void;
-  onResults(callback: (results: MediaPipeResults) => void): void;
-  send(inputs: { image: HTMLVideoElement }): Promise<void>;
-  close(): void;
-}
-
 // Hand connection pairs for drawing skeleton
 const HAND_CONNECTIONS = [
   [0, 1],
@@ -50,71 +61,230 @@ const HAND_CONNECTIONS = [
   [13, 17], // Palm connections
 ];
 
-let handsModel: MediaPipeHands | null = null;
+/**
+ * MediaPipe labels handedness as if its input were a mirrored selfie image.
+ * Video frames from getUserMedia are never mirrored, so the raw label names
+ * the opposite hand.
+ */
+const swapHandedness = (handedness: string): string =>
+  handedness === "Left" ? "Right" : "Left";
 
-export const initializeMediaPipeHands = async (): Promise<MediaPipeHands> => {
-  if (handsModel) {
-    return handsModel;
-  }
+/**
+ * Flip a hand horizontally, from raw frame space into a mirrored view.
+ * Handedness is unchanged: it is the same hand, only displayed mirrored.
+ */
+export const mirrorHandDetection = (hand: HandDetection): HandDetection => ({
+  ...hand,
+  landmarks: hand.landmarks.map((landmark) => ({
+    ...landmark,
+    x: 1 - landmark.x,
+  })),
+  worldLandmarks: hand.worldLandmarks?.map((landmark) => ({
+    ...landmark,
+    x: -landmark.x,
+  })),
+});
 
-  try {
-    // Dynamic import to avoid SSR issues
-    const { Hands } = await import("@mediapipe/hands");
-
-    const hands = new Hands({
-      locateFile: (file: string) => {
-        return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-      },
-    });
-
-    hands.setOptions({
-      maxNumHands: 2,
-      // FIXED: Increased model complexity for more accurate landmark positions.
-      // This is crucial for calculating correct 3D orientations. May reduce FPS slightly.
-      modelComplexity: 1,
-      // FIXED: Lowered confidence thresholds to allow for more robust tracking, even in challenging conditions.
-      minDetectionConfidence: 0.5,
-      minTrackingConfidence: 0.5,
-    });
-
-    handsModel = hands as MediaPipeHands;
-    console.log(
-      "MediaPipe Hands model initialized successfully with higher accuracy settings"
-    );
-    return handsModel;
-  } catch (error) {
-    console.error("Failed to initialize MediaPipe Hands:", error);
-    throw error;
-  }
-};
-
-export const processMediaPipeResults = (
-  results: MediaPipeResults
+/**
+ * Convert a HandLandmarker result for an unmirrored video frame.
+ * Pass `mirrored` to get coordinates in a mirrored (selfie) view.
+ */
+export const processHandLandmarkerResult = (
+  result: HandLandmarkerResult,
+  mirrored: boolean = false
 ): MediaPipeHandsResult => {
   const hands: HandDetection[] = [];
 
-  if (results.multiHandLandmarks && results.multiHandedness) {
-    for (let i = 0; i < results.multiHandLandmarks.length; i++) {
-      const landmarks = results.multiHandLandmarks[i];
-      const handedness = results.multiHandedness[i];
-
-      hands.push({
-        landmarks: landmarks.map(
-          (landmark: { x: number; y: number; z: number }) => ({
-            x: landmark.x,
-            y: landmark.y,
-            z: landmark.z,
-          })
-        ),
-        handedness: handedness.label,
-        score: handedness.score,
-      });
-    }
+  for (let i = 0; i < result.landmarks.length; i++) {
+    const landmarks = result.landmarks[i];
+    const worldLandmarks = result.worldLandmarks?.[i];
+    const [handedness] = result.handedness[i] ?? [];
+
+    const hand: HandDetection = {
+      landmarks: landmarks.map((landmark) => ({
+        x: landmark.x,
+        y: landmark.y,
+        z: landmark.z,
+      })),
+      worldLandmarks: worldLandmarks?.map((landmark) => ({
+        x: landmark.x,
+        y: landmark.y,
+        z: landmark.z,
+      })),
+      handedness: handedness
+        ? swapHandedness(handedness.categoryName)
+        : "Right",
+      score: handedness?.score ?? 0,
+    };
+
+    hands.push(mirrored ? mirrorHandDetection(hand) : hand);
   }
 
   return { hands };
 };
 
+export interface HandTrackerOptions {
+  numHands: number; // Maximum hands to track
+  minHandDetectionConfidence: number; // Palm detection threshold
+  minHandPresenceConfidence: number; // Below this the palm detector reruns
+  minTrackingConfidence: number; // Landmark tracking threshold between frames
+  delegate: "GPU" | "CPU"; // Changing this recreates the landmarker
+}
+
+export const DEFAULT_HAND_TRACKER_OPTIONS: HandTrackerOptions = {
+  numHands: 2,
+  minHandDetectionConfidence: 0.5,
+  minHandPresenceConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+  delegate: "GPU",
+};
+
+/**
+ * Reconfigurable hand tracker around tasks-vision's `HandLandmarker`.
+ * Thresholds and hand count update live; a delegate change disposes the
+ * landmarker and creates a new one.
+ */
+export class HandTracker {
+  private landmarker: HandLandmarker | null = null;
+  private options: HandTrackerOptions;
+  private activeDelegate: "GPU" | "CPU" | null = null;
+  private lastTimestamp = -1;
+  private mirrored = false;
+
+  constructor(options: Partial<HandTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_HAND_TRACKER_OPTIONS, ...options };
+  }
+
+  public get isReady(): boolean {
+    return this.landmarker !== null;
+  }
+
+  public getOptions(): HandTrackerOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Return landmarks flipped for a mirrored view. The landmarker always
+   * sees the unmirrored frame, so this needs no reinitialization.
+   */
+  public setMirrored(mirrored: boolean): void {
+    this.mirrored = mirrored;
+  }
+
+  public isMirrored(): boolean {
+    return this.mirrored;
+  }
+
+  /**
+   * Delegate actually in use; GPU falls back to CPU if it can't start
+   */
+  public getActiveDelegate(): "GPU" | "CPU" | null {
+    return this.activeDelegate;
+  }
+
+  public async initialize(): Promise<void> {
+    if (this.landmarker) return;
+
+    try {
+      // Dynamic import to avoid SSR issues
+      const { FilesetResolver, HandLandmarker } = await import(
+        "@mediapipe/tasks-vision"
+      );
+
+      const vision = await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_PATH);
+
+      const createLandmarker = (delegate: "GPU" | "CPU") =>
+        HandLandmarker.createFromOptions(vision, {
+          baseOptions: {
+            modelAssetPath: HAND_LANDMARKER_MODEL_PATH,
+            delegate,
+          },
+          runningMode: "VIDEO",
+          ...this.getLandmarkerOptions(),
+        });
+
+      try {
+        this.landmarker = await createLandmarker(this.options.delegate);
+        this.activeDelegate = this.options.delegate;
+      } catch (error) {
+        if (this.options.delegate === "CPU") throw error;
+        console.warn("HandLandmarker GPU delegate failed, using CPU:", error);
+        this.landmarker = await createLandmarker("CPU");
+        this.activeDelegate = "CPU";
+      }
+
+      this.lastTimestamp = -1;
+      console.log(
+        `MediaPipe HandLandmarker initialized from local assets (${this.activeDelegate})`,
+        this.options
+      );
+    } catch (error) {
+      console.error("Failed to initialize MediaPipe HandLandmarker:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update tracker options without reloading the page
+   */
+  public async setOptions(options: Partial<HandTrackerOptions>): Promise<void> {
+    const previous = this.options;
+    this.options = { ...this.options, ...options };
+
+    if (!this.landmarker) return;
+
+    if (this.options.delegate !== previous.delegate) {
+      this.dispose();
+      await this.initialize();
+      return;
+    }
+
+    await this.landmarker.setOptions(this.getLandmarkerOptions());
+    console.log("HandLandmarker options updated:", this.options);
+  }
+
+  /**
+   * Track hands in the current video frame.
+   * VIDEO mode needs strictly increasing timestamps in milliseconds.
+   */
+  public detect(
+    video: HTMLVideoElement,
+    timestampMs: number
+  ): MediaPipeHandsResult {
+    if (!this.landmarker) return { hands: [] };
+
+    const timestamp = Math.max(timestampMs, this.lastTimestamp + 1);
+    this.lastTimestamp = timestamp;
+    return processHandLandmarkerResult(
+      this.landmarker.detectForVideo(video, timestamp),
+      this.mirrored
+    );
+  }
+
+  public dispose(): void {
+    if (this.landmarker) {
+      this.landmarker.close();
+      this.landmarker = null;
+      this.activeDelegate = null;
+    }
+  }
+
+  private getLandmarkerOptions() {
+    const {
+      numHands,
+      minHandDetectionConfidence,
+      minHandPresenceConfidence,
+      minTrackingConfidence,
+    } = this.options;
+    return {
+      numHands,
+      minHandDetectionConfidence,
+      minHandPresenceConfidence,
+      minTrackingConfidence,
+    };
+  }
+}
+
 export const drawHandDetections = (
   canvas: HTMLCanvasElement,
   hands: HandDetection[],
@@ -227,9 +397,26 @@ export const getHandBoundingBox = (
   return [x, y, width, height];
 };
 
-export const disposeMediaPipeHands = (): void => {
-  if (handsModel) {
-    handsModel.close();
-    handsModel = null;
-  }
+/**
+ * Padded square region around a hand for cropped nail inference.
+ * Returns [x, y, size] in frame pixels; the square may extend past the frame.
+ */
+export const getHandRoi = (
+  hand: HandDetection,
+  imageWidth: number,
+  imageHeight: number,
+  padding: number = 0.25, // Fraction of the hand's longer side added per edge
+  minSize: number = 160 // Keeps tiny or distant hands from being over-zoomed
+): [number, number, number] => {
+  const [x, y, width, height] = getHandBoundingBox(
+    hand,
+    imageWidth,
+    imageHeight
+  );
+
+  const size = Math.max(minSize, Math.max(width, height) * (1 + 2 * padding));
+  const centerX = x + width / 2;
+  const centerY = y + height / 2;
+
+  return [centerX - size / 2, centerY - size / 2, size];
 };
@@ -0,0 +1,159 @@
+/**
+ * Offline Model Cache
+ *
+ * Keeps the nail model in IndexedDB so repeat sessions skip the shard download:
+ * 1. Cache entries are tfjs `indexeddb://` model-store URLs versioned by a
+ *    SHA-256 hash of `metadata.yaml`, so a new export replaces the old one.
+ * 2. The metadata text is stored with the weights, which lets the model and
+ *    its descriptor load fully offline.
+ * 3. Network loads report shard download progress.
+ *
+ * Runs inside the inference worker.
+ */
+
+import * as tf from "@tensorflow/tfjs";
+import { fetchModelMetadata } from "./modelDescriptor";
+
+const CACHE_PREFIX = "indexeddb://nails-ai-model-";
+
+export interface CachedModelLoad {
+  model: tf.GraphModel;
+  metadataText: string | null; // Raw metadata.yaml, null if unavailable
+  fromCache: boolean;
+}
+
+/**
+ * Hex SHA-256 of a string, shortened for use in a model-store key
+ */
+async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .slice(0, 16);
+}
+
+async function listCachedModels(): Promise<{ key: string; dateSaved: Date }[]> {
+  try {
+    const models = await tf.io.listModels();
+    return Object.entries(models)
+      .filter(([key]) => key.startsWith(CACHE_PREFIX))
+      .map(([key, info]) => ({ key, dateSaved: new Date(info.dateSaved) }));
+  } catch (error) {
+    console.warn("Could not list cached models:", error);
+    return [];
+  }
+}
+
+/**
+ * Load a cached model, returning the metadata text saved alongside it
+ */
+async function loadFromCache(
+  key: string
+): Promise<{ model: tf.GraphModel; metadataText: string | null } | null> {
+  try {
+    const [handler] = tf.io.getLoadHandlers(key);
+    if (!handler?.load) return null;
+
+    const artifacts = await handler.load();
+    const metadataYaml = artifacts.userDefinedMetadata?.metadataYaml;
+    const model = await tf.loadGraphModel(tf.io.fromMemory(artifacts));
+    return {
+      model,
+      metadataText: typeof metadataYaml === "string" ? metadataYaml : null,
+    };
+  } catch {
+    // Missing or unreadable entry
+    return null;
+  }
+}
+
+/**
+ * Save a model under `key` with the metadata text attached, then drop
+ * every other cached version
+ */
+async function saveToCache(
+  model: tf.GraphModel,
+  key: string,
+  metadataText: string
+): Promise<void> {
+  try {
+    const [handler] = tf.io.getSaveHandlers(key);
+    if (!handler?.save) return;
+
+    await model.save({
+      save: (artifacts) =>
+        handler.save!({
+          ...artifacts,
+          userDefinedMetadata: {
+            ...artifacts.userDefinedMetadata,
+            metadataYaml: metadataText,
+          },
+        }),
+    });
+    console.log(`Cached nail model as ${key}`);
+
+    const stale = (await listCachedModels()).filter(
+      (entry) => entry.key !== key
+    );
+    await Promise.all(stale.map((entry) => tf.io.removeModel(entry.key)));
+  } catch (error) {
+    // Caching is an optimisation; the loaded model is still usable
+    console.warn("Could not cache nail model:", error);
+  }
+}
+
+/**
+ * Load the model from IndexedDB when the cached version matches the current
+ * metadata.yaml, otherwise download it (reporting progress) and cache it.
+ * Without network access the newest cached version is used.
+ */
+export async function loadModelWithCache(
+  modelUrl: string,
+  onProgress?: (fraction: number) => void
+): Promise<CachedModelLoad> {
+  const metadataText = await fetchModelMetadata(modelUrl);
+
+  if (metadataText !== null) {
+    const key = CACHE_PREFIX + (await hashText(metadataText));
+    const cached = await loadFromCache(key);
+    if (cached) {
+      console.log(`Loaded nail model from cache ${key}`);
+      onProgress?.(1);
+      return { model: cached.model, metadataText, fromCache: true };
+    }
+
+    const model = await tf.loadGraphModel(modelUrl, { onProgress });
+    await saveToCache(model, key, metadataText);
+    return { model, metadataText, fromCache: false };
+  }
+
+  // Metadata unreachable, most likely offline: fall back to the newest cache
+  const newest = (await listCachedModels()).sort(
+    (a, b) => b.dateSaved.getTime() - a.dateSaved.getTime()
+  )[0];
+  if (newest) {
+    const cached = await loadFromCache(newest.key);
+    if (cached) {
+      console.log(`Offline: loaded nail model from cache ${newest.key}`);
+      onProgress?.(1);
+      return { ...cached, fromCache: true };
+    }
+  }
+
+  const model = await tf.loadGraphModel(modelUrl, { onProgress });
+  return { model, metadataText: null, fromCache: false };
+}
+
+/**
+ * Remove every cached model version. Returns how many were removed.
+ */
+export async function clearModelCache(): Promise<number> {
+  const cached = await listCachedModels();
+  await Promise.all(cached.map((entry) => tf.io.removeModel(entry.key)));
+  console.log(`Cleared ${cached.length} cached model(s)`);
+  return cached.length;
+}
@@ -0,0 +1,239 @@
+/**
+ * YOLO Model Descriptor
+ *
+ * Ultralytics exports ship a `metadata.yaml` next to `model.json` describing
+ * the input size, stride, task and class names. This module reads it so the
+ * pipeline can be configured from the model instead of hardcoded constants:
+ * 1. Fetches and parses `metadata.yaml` (a small YAML subset is enough).
+ * 2. Derives the input size, class list and expected anchor count.
+ * 3. Falls back to the bundled single-class 640 nail model if it is missing.
+ */
+
+export interface ModelDescriptor {
+  inputSize: number; // Side of the square model input, e.g. 320, 640, 1024
+  stride: number; // Largest feature map stride
+  task: string; // "segment" or "detect"
+  classNames: string[]; // Indexed by class id
+  numClasses: number;
+  numAnchors: number; // Predictions per image, e.g. 8400 for 640
+}
+
+// Feature map strides of the YOLOv8 detection head (P3, P4, P5)
+const HEAD_STRIDES = [8, 16, 32];
+
+/**
+ * Number of anchor points the YOLOv8 head predicts for a square input
+ */
+export function computeAnchorCount(
+  inputSize: number,
+  strides: number[] = HEAD_STRIDES
+): number {
+  return strides.reduce(
+    (total, stride) => total + Math.ceil(inputSize / stride) ** 2,
+    0
+  );
+}
+
+/**
+ * Build a descriptor from its essential values
+ */
+export function createModelDescriptor(
+  inputSize: number,
+  classNames: string[],
+  stride: number = 32,
+  task: string = "segment"
+): ModelDescriptor {
+  return {
+    inputSize,
+    stride,
+    task,
+    classNames,
+    numClasses: classNames.length,
+    numAnchors: computeAnchorCount(inputSize),
+  };
+}
+
+// Matches the model bundled in public/model_web
+export const DEFAULT_MODEL_DESCRIPTOR: ModelDescriptor = createModelDescriptor(
+  640,
+  ["Nail"]
+);
+
+type YamlValue = string | number | boolean | null | YamlValue[] | YamlMap;
+interface YamlMap {
+  [key: string]: YamlValue;
+}
+
+function parseYamlScalar(raw: string): YamlValue {
+  const value = raw.trim();
+  if (value === "" || value === "~" || value === "null") return null;
+  if (value === "true") return true;
+  if (value === "false") return false;
+
+  if (
+    (value.startsWith("'") && value.endsWith("'")) ||
+    (value.startsWith('"') && value.endsWith('"'))
+  ) {
+    return value.slice(1, -1);
+  }
+
+  // Flow sequences such as `imgsz: [640, 640]`
+  if (value.startsWith("[") && value.endsWith("]")) {
+    const inner = value.slice(1, -1).trim();
+    return inner === "" ? [] : inner.split(",").map(parseYamlScalar);
+  }
+
+  const number = Number(value);
+  return Number.isNaN(number) ? value : number;
+}
+
+/**
+ * Parse the YAML subset used by Ultralytics metadata files:
+ * nested block mappings, block sequences of scalars and plain or quoted scalars.
+ */
+export function parseSimpleYaml(text: string): YamlMap {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "" && !line.trim().startsWith("#"));
+
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+
+  function parseBlock(start: number, indent: number): [YamlValue, number] {
+    const isSequence = lines[start].trimStart().startsWith("- ");
+
+    if (isSequence) {
+      const items: YamlValue[] = [];
+      let i = start;
+      while (i < lines.length && indentOf(lines[i]) === indent) {
+        const content = lines[i].trimStart();
+        if (!content.startsWith("- ")) break;
+        items.push(parseYamlScalar(content.slice(2)));
+        i++;
+      }
+      return [items, i];
+    }
+
+    const map: YamlMap = {};
+    let i = start;
+    while (i < lines.length && indentOf(lines[i]) === indent) {
+      const content = lines[i].trim();
+      const separator = content.indexOf(":");
+      if (separator < 0) {
+        i++;
+        continue;
+      }
+
+      const key = parseYamlScalar(content.slice(0, separator));
+      const rest = content.slice(separator + 1);
+      i++;
+
+      if (rest.trim() === "" && i < lines.length) {
+        // Nested block; sequences may sit at the same indent as their key
+        const childIndent = indentOf(lines[i]);
+        const isChildSequence = lines[i].trimStart().startsWith("- ");
+        if (
+          childIndent > indent ||
+          (childIndent === indent && isChildSequence)
+        ) {
+          const [child, next] = parseBlock(i, childIndent);
+          map[String(key)] = child;
+          i = next;
+          continue;
+        }
+      }
+
+      map[String(key)] = parseYamlScalar(rest);
+    }
+    return [map, i];
+  }
+
+  if (lines.length === 0) return {};
+  const [root] = parseBlock(0, indentOf(lines[0]));
+  return Array.isArray(root) || root === null || typeof root !== "object"
+    ? {}
+    : root;
+}
+
+/**
+ * Turn parsed metadata into a descriptor, filling gaps with defaults
+ */
+export function descriptorFromMetadata(metadata: YamlMap): ModelDescriptor {
+  const imgsz = metadata.imgsz;
+  let inputSize = DEFAULT_MODEL_DESCRIPTOR.inputSize;
+  if (typeof imgsz === "number") {
+    inputSize = imgsz;
+  } else if (Array.isArray(imgsz) && typeof imgsz[0] === "number") {
+    // Ultralytics stores [height, width]; letterboxing needs a square input
+    const [height, width = height] = imgsz as number[];
+    if (height !== width) {
+      console.warn(
+        `Non-square model input ${height}x${width}, using ${Math.max(
+          height,
+          width
+        )}`
+      );
+    }
+    inputSize = Math.max(height, width);
+  }
+
+  // `names` is a mapping of class id to name
+  const names = metadata.names;
+  let classNames = DEFAULT_MODEL_DESCRIPTOR.classNames;
+  if (Array.isArray(names)) {
+    classNames = names.map(String);
+  } else if (names && typeof names === "object") {
+    classNames = [];
+    Object.entries(names).forEach(([id, name]) => {
+      classNames[Number(id)] = String(name);
+    });
+    classNames = Array.from(classNames, (name, id) => name ?? `class ${id}`);
+  }
+
+  const stride = typeof metadata.stride === "number" ? metadata.stride : 32;
+  const task = typeof metadata.task === "string" ? metadata.task : "segment";
+
+  return createModelDescriptor(inputSize, classNames, stride, task);
+}
+
+/**
+ * URL of the `metadata.yaml` that sits next to `model.json`
+ */
+export function getMetadataUrl(modelUrl: string): string {
+  return modelUrl.substring(0, modelUrl.lastIndexOf("/") + 1) + "metadata.yaml";
+}
+
+/**
+ * Fetch the raw `metadata.yaml` text, or null if it cannot be reached
+ */
+export async function fetchModelMetadata(
+  modelUrl: string
+): Promise<string | null> {
+  const metadataUrl = getMetadataUrl(modelUrl);
+  try {
+    const response = await fetch(metadataUrl);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.text();
+  } catch (error) {
+    console.warn(`Could not read ${metadataUrl}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Build a descriptor from `metadata.yaml` text.
+ * Returns the default descriptor if there is no metadata.
+ */
+export function parseModelDescriptor(
+  metadataText: string | null
+): ModelDescriptor {
+  if (metadataText === null) {
+    console.warn("No model metadata, using default model descriptor");
+    return DEFAULT_MODEL_DESCRIPTOR;
+  }
+
+  const descriptor = descriptorFromMetadata(parseSimpleYaml(metadataText));
+  console.log("Model descriptor:", descriptor);
+  return descriptor;
+}
@@ -2,14 +2,34 @@
  * Nail-Fingertip Matching and Orientation Analysis (REVISED & IMPROVED)
  *
  * This module handles:
- * 1. Matching detected nails to specific fingertips using distance and confidence.
+ * 1. Matching detected nails to specific fingertips with an optimal (Hungarian)
+ *    assignment over a cost mixing distance, confidence and axis alignment.
+ *    Pairs that are anatomically implausible are rejected before assignment.
  * 2. Calculating a full 3D orientation basis (X, Y, Z axes) for each nail.
  * 3. Calculating nail dimensions (width, length) and 2D angle for drawing.
- * 4. Preparing robust data for the 3D model overlay.
+ * 4. Classifying the natural nail shape and the facing (dorsal, side-on or
+ *    palmar) of each matched finger.
+ * 5. Preparing robust data for the 3D model overlay, including mask-only
+ *    pseudo-matches that keep nails on screen while hand tracking drops out.
+ *
+ * Orientation uses MediaPipe's metric world landmarks when they are available,
+ * since normalized image z is not on the same scale as x/y.
+ *
+ * Nails and hands must share one view space; in a mirrored view the hand's
+ * geometry has the opposite chirality, which `mirrored` accounts for.
  */
 
 import { YoloDetection } from "./yolo";
 import { HandDetection } from "./mediapipe";
+import { solveAssignment } from "./assignment";
+import { computePolygonMoments, PolygonMoments } from "./polygonGeometry";
+import { classifyNailShape, NailShapeAnalysis } from "./nailShape";
+import {
+  DEFAULT_HAND_FACING_OPTIONS,
+  estimateFingerFacing,
+  FingerFacingEstimate,
+  HandFacingOptions,
+} from "./handFacing";
 import * as THREE from "three"; // Using THREE's Vector3 for robust vector math
 
 export interface NailFingerMatch {
@@ -23,6 +43,12 @@ export interface NailFingerMatch {
   matchConfidence: number;
   handIndex: number;
   handedness: "Left" | "Right";
+  orientationSource: "world" | "image"; // Landmarks the basis was built from
+  nailWidthMm?: number; // Metric estimates, only with world landmarks
+  nailLengthMm?: number;
+  nailShape?: NailShapeAnalysis; // Natural shape, only with a mask polygon
+  facing: FingerFacingEstimate; // Which side of the finger faces the camera
+  source: "hand" | "polygon"; // Matched to hand landmarks, or built from the mask alone
   orientation: {
     // A right-handed coordinate system for the nail
     xAxis: [number, number, number]; // Points across the nail width (local X)
@@ -31,6 +57,65 @@ export interface NailFingerMatch {
   };
 }
 
+// Relative weights of the terms in a nail-fingertip pairing cost
+export interface MatchCostWeights {
+  distance: number; // Nail centroid to fingertip, relative to the search radius
+  score: number; // One minus the nail detection score
+  alignment: number; // Angle between the nail's long axis and the finger
+}
+
+export const DEFAULT_MATCH_COST_WEIGHTS: MatchCostWeights = {
+  distance: 0.6,
+  score: 0.2,
+  alignment: 0.2,
+};
+
+// Geometric checks a nail-fingertip pair must pass to be matched
+export interface PlausibilityOptions {
+  enabled: boolean;
+  maxSegmentDistance: number; // Nail centroid to the DIP→TIP segment, in DIP→TIP lengths
+  maxAxisAngle: number; // Degrees between the nail's long axis and the finger
+  minAxisElongation: number; // Outlines rounder than this have no reliable axis
+  minDorsalFacing: number; // Lowest camera-facing component of the nail normal, -1 to 1
+}
+
+export const DEFAULT_PLAUSIBILITY_OPTIONS: PlausibilityOptions = {
+  enabled: true,
+  maxSegmentDistance: 0.6,
+  maxAxisAngle: 50,
+  minAxisElongation: 1.4,
+  minDorsalFacing: -0.25,
+};
+
+export interface NailMatchingOptions {
+  mirrored?: boolean; // Detections and landmarks are in a mirrored view, default false
+  maxDistanceFraction?: number; // Search radius over the shorter frame side, default 0.15
+  costWeights?: Partial<MatchCostWeights>;
+  plausibility?: Partial<PlausibilityOptions>;
+  facing?: Partial<HandFacingOptions>;
+}
+
+export interface RejectedCandidate {
+  nailDetection: YoloDetection;
+  handIndex: number;
+  fingertipIndex: number;
+  reason: string;
+}
+
+export interface UnmatchedFingertip {
+  handIndex: number;
+  handedness: "Left" | "Right";
+  fingertipIndex: number;
+  fingertipPosition: [number, number];
+}
+
+export interface NailAssignmentResult {
+  matches: NailFingerMatch[];
+  unmatchedNails: YoloDetection[];
+  unmatchedFingertips: UnmatchedFingertip[];
+  rejectedCandidates: RejectedCandidate[]; // Pairs in range that failed plausibility checks
+}
+
 // MediaPipe finger landmark indices, defined for clarity
 const FINGER_LANDMARKS = {
   THUMB: { TIP: 4, DIP: 3, PIP: 2, MCP: 1 },
@@ -81,17 +166,32 @@ function calculateNailCentroid(detection: YoloDetection): [number, number] {
   return [x + width / 2, y + height / 2];
 }
 
+/**
+ * Landmarks used for 3D geometry: metric world landmarks when present,
+ * falling back to normalized image landmarks.
+ * Both use MediaPipe's x-right, y-down, z-away axes.
+ */
+function getGeometryLandmarks(hand: HandDetection) {
+  const world = hand.worldLandmarks;
+  return world && world.length === hand.landmarks.length
+    ? { landmarks: world, source: "world" as const }
+    : { landmarks: hand.landmarks, source: "image" as const };
+}
+
 /**
  * FIXED: This is the core logic for calculating a stable 3D orientation basis.
  * It uses the hand's own geometry to create a robust coordinate system for the nail.
  * The previous method was unstable when fingers were held straight. This version uses
  * a stable plane from the palm (wrist, index MCP, pinky MCP) to find the normal vector.
+ * World landmarks are in metres, so the finger and palm vectors keep their
+ * true proportions in depth.
  */
 function calculateOrientationBasis(
   hand: HandDetection,
-  tipIndex: number
+  tipIndex: number,
+  mirrored: boolean
 ): NailFingerMatch["orientation"] | null {
-  const lm = hand.landmarks;
+  const lm = getGeometryLandmarks(hand).landmarks;
   const indices = getFingerLandmarkIndices(tipIndex);
   if (!indices) return null;
 
@@ -131,13 +231,14 @@ function calculateOrientationBasis(
   const v_wrist_pinky = new THREE.Vector3().subVectors(p_pinky_mcp, p_wrist);
 
   // The cross product gives a vector normal to the palm.
-  // The winding order of landmarks is consistent, but a left hand is a mirror
-  // of a right hand, so its normal will point the opposite way. We must correct for this.
+  // For a right hand seen unmirrored it points out of the palm, so it is
+  // negated to point out of the nail. A left hand is a mirror of a right hand,
+  // and a mirrored view swaps that chirality again.
   const yAxis = new THREE.Vector3()
     .crossVectors(v_wrist_index, v_wrist_pinky)
     .normalize();
 
-  if (hand.handedness === "Left") {
+  if ((hand.handedness === "Right") !== mirrored) {
     yAxis.negate();
   }
 
@@ -175,6 +276,23 @@ function calculateOrientationBasis(
   };
 }
 
+/**
+ * Direction of the distal phalanx (DIP to TIP) in the same right-handed,
+ * Y-up frame as the orientation basis
+ */
+function calculateDistalDirection(
+  hand: HandDetection,
+  tipIndex: number
+): [number, number, number] | null {
+  const lm = getGeometryLandmarks(hand).landmarks;
+  const indices = getFingerLandmarkIndices(tipIndex);
+  if (!indices || !lm[indices.TIP] || !lm[indices.DIP]) return null;
+
+  const tip = lm[indices.TIP];
+  const dip = lm[indices.DIP];
+  return [tip.x - dip.x, -(tip.y - dip.y), -(tip.z - dip.z)];
+}
+
 /**
  * Calculates the nail's width and length by projecting its mask points onto the orientation axes.
  */
@@ -241,6 +359,41 @@ function calculateNailDimensions(
   };
 }
 
+/**
+ * Millimetres per frame pixel around the hand, from palm segments.
+ * World landmarks share the camera's x/y axes, so the x/y extent of a world
+ * segment corresponds to its projected length in the image.
+ */
+export function calculateMillimetresPerPixel(
+  hand: HandDetection,
+  frameWidth: number,
+  frameHeight: number
+): number | null {
+  const world = hand.worldLandmarks;
+  if (!world || world.length !== hand.landmarks.length) return null;
+
+  // Wrist, index MCP and pinky MCP form a rigid triangle
+  const segments = [
+    [0, 5],
+    [5, 17],
+    [17, 0],
+  ];
+
+  let worldLength = 0;
+  let pixelLength = 0;
+  for (const [a, b] of segments) {
+    if (!world[a] || !world[b]) return null;
+    worldLength += Math.hypot(world[a].x - world[b].x, world[a].y - world[b].y);
+    pixelLength += Math.hypot(
+      (hand.landmarks[a].x - hand.landmarks[b].x) * frameWidth,
+      (hand.landmarks[a].y - hand.landmarks[b].y) * frameHeight
+    );
+  }
+
+  if (pixelLength < 1) return null;
+  return (worldLength * 1000) / pixelLength;
+}
+
 function distanceBetweenPoints(
   p1: [number, number],
   p2: [number, number]
@@ -251,88 +404,390 @@ function distanceBetweenPoints(
 }
 
 /**
- * Main function to match nail detections to hand landmarks.
+ * |cos| of the angle between the nail's long axis and the finger direction
+ * on the canvas, or null when either is undefined
  */
-export function matchNailsToFingertips(
-  nailDetections: YoloDetection[],
-  handDetections: HandDetection[],
-  frameWidth: number,
-  frameHeight: number
-): NailFingerMatch[] {
-  if (nailDetections.length === 0 || handDetections.length === 0) {
-    return [];
+function calculateAxisCosine(
+  moments: PolygonMoments | null,
+  orientation: NailFingerMatch["orientation"]
+): number | null {
+  if (!moments) return null;
+
+  // Finger direction on the Y-down canvas
+  const fingerX = orientation.zAxis[0];
+  const fingerY = -orientation.zAxis[1];
+  const fingerLength = Math.hypot(fingerX, fingerY);
+  if (fingerLength < 1e-6) return null;
+
+  return Math.abs(
+    (moments.majorAxis[0] * fingerX + moments.majorAxis[1] * fingerY) /
+      fingerLength
+  );
+}
+
+/**
+ * Distance from a point to the segment a→b
+ */
+function distanceToSegment(
+  point: [number, number],
+  a: [number, number],
+  b: [number, number]
+): number {
+  const abX = b[0] - a[0];
+  const abY = b[1] - a[1];
+  const lengthSq = abX * abX + abY * abY;
+  const t =
+    lengthSq > 0
+      ? Math.max(
+          0,
+          Math.min(
+            1,
+            ((point[0] - a[0]) * abX + (point[1] - a[1]) * abY) / lengthSq
+          )
+        )
+      : 0;
+  return distanceBetweenPoints(point, [a[0] + t * abX, a[1] + t * abY]);
+}
+
+/**
+ * Check that a nail could anatomically belong to a finger.
+ * Returns the reason for rejection, or null if the pair is plausible.
+ */
+function checkPlausibility(
+  nailCentroid: [number, number],
+  moments: PolygonMoments | null,
+  dipPosition: [number, number],
+  tipPosition: [number, number],
+  orientation: NailFingerMatch["orientation"],
+  options: PlausibilityOptions
+): string | null {
+  // The nail sits on the distal phalanx, between the DIP joint and the tip
+  const phalanxLength = distanceBetweenPoints(dipPosition, tipPosition);
+  const segmentDistance = distanceToSegment(
+    nailCentroid,
+    dipPosition,
+    tipPosition
+  );
+  if (
+    phalanxLength > 0 &&
+    segmentDistance > options.maxSegmentDistance * phalanxLength
+  ) {
+    return `centroid ${segmentDistance.toFixed(
+      0
+    )}px from the DIP→TIP segment (limit ${(
+      options.maxSegmentDistance * phalanxLength
+    ).toFixed(0)}px)`;
   }
 
-  const potentialMatches: (NailFingerMatch & { matchScore: number })[] = [];
-  const maxDistance = Math.min(frameWidth, frameHeight) * 0.15; // Max search radius
+  // Only elongated outlines have a long axis worth comparing
+  const cosine = calculateAxisCosine(moments, orientation);
+  if (
+    moments &&
+    cosine !== null &&
+    moments.elongation >= options.minAxisElongation
+  ) {
+    const angle = (Math.acos(Math.min(1, cosine)) * 180) / Math.PI;
+    if (angle > options.maxAxisAngle) {
+      return `long axis ${angle.toFixed(0)}° off the finger (limit ${
+        options.maxAxisAngle
+      }°)`;
+    }
+  }
 
-  // Find all possible matches between nails and fingertips
-  for (const detection of nailDetections) {
-    const nailCentroid = calculateNailCentroid(detection);
+  // The nail normal's z component points towards the camera when positive
+  const facing = orientation.yAxis[2];
+  if (facing < options.minDorsalFacing) {
+    return `dorsal side faces away from the camera (normal z ${facing.toFixed(
+      2
+    )})`;
+  }
+
+  return null;
+}
 
-    for (const [handIndex, hand] of handDetections.entries()) {
-      for (const tipIndex of FINGER_TIPS) {
-        if (!hand.landmarks[tipIndex]) continue;
+/**
+ * How poorly a nail's long axis lines up with the finger, 0-1.
+ * Round nails have no reliable axis and get a neutral half cost.
+ */
+function calculateAxisMisalignment(
+  moments: PolygonMoments | null,
+  orientation: NailFingerMatch["orientation"]
+): number {
+  const cosine = calculateAxisCosine(moments, orientation);
+  if (!moments || cosine === null) return 0.5;
 
-        const fingertip = hand.landmarks[tipIndex];
-        const fingertipPos: [number, number] = [
-          fingertip.x * frameWidth,
-          fingertip.y * frameHeight,
-        ];
+  // Blend towards neutral as the outline approaches a circle
+  const axisConfidence = Math.min(1, (moments.elongation - 1) / 0.5);
+  return axisConfidence * (1 - cosine) + (1 - axisConfidence) * 0.5;
+}
 
-        const dist = distanceBetweenPoints(fingertipPos, nailCentroid);
+/**
+ * Assign nail detections to fingertips with the Hungarian algorithm.
+ * Every nail-fingertip pair within the search radius gets a cost; the
+ * assignment minimizes the total, so one ambiguous nail can't push its
+ * neighbours onto the wrong fingers the way a greedy pick can.
+ */
+export function assignNailsToFingertips(
+  nailDetections: YoloDetection[],
+  handDetections: HandDetection[],
+  frameWidth: number,
+  frameHeight: number,
+  options: NailMatchingOptions = {}
+): NailAssignmentResult {
+  const { mirrored = false, maxDistanceFraction = 0.15 } = options;
+  const weights = { ...DEFAULT_MATCH_COST_WEIGHTS, ...options.costWeights };
+  const plausibility = {
+    ...DEFAULT_PLAUSIBILITY_OPTIONS,
+    ...options.plausibility,
+  };
+  const facingOptions = { ...DEFAULT_HAND_FACING_OPTIONS, ...options.facing };
+  const maxDistance = Math.min(frameWidth, frameHeight) * maxDistanceFraction; // Max search radius
+
+  // Every visible fingertip of every hand is an assignment column
+  const fingertips = handDetections.flatMap((hand, handIndex) => {
+    const orientationSource = getGeometryLandmarks(hand).source;
+    const mmPerPixel = calculateMillimetresPerPixel(
+      hand,
+      frameWidth,
+      frameHeight
+    );
+
+    const toPixels = (index: number): [number, number] => [
+      hand.landmarks[index].x * frameWidth,
+      hand.landmarks[index].y * frameHeight,
+    ];
 
-        if (dist < maxDistance) {
-          const orientation = calculateOrientationBasis(hand, tipIndex);
-          if (!orientation) continue;
+    return FINGER_TIPS.filter(
+      (tipIndex) =>
+        hand.landmarks[tipIndex] &&
+        hand.landmarks[getFingerLandmarkIndices(tipIndex)!.DIP]
+    ).map((tipIndex) => {
+      const orientation = calculateOrientationBasis(hand, tipIndex, mirrored);
+      return {
+        handIndex,
+        handedness: hand.handedness as "Left" | "Right",
+        fingertipIndex: tipIndex,
+        fingertipPosition: toPixels(tipIndex),
+        dipPosition: toPixels(getFingerLandmarkIndices(tipIndex)!.DIP),
+        orientation,
+        facing: orientation
+          ? estimateFingerFacing(
+              orientation.yAxis,
+              calculateDistalDirection(hand, tipIndex),
+              facingOptions
+            )
+          : null,
+        orientationSource,
+        mmPerPixel,
+      };
+    });
+  });
 
-          const nailDimensions = calculateNailDimensions(
-            detection,
-            orientation
-          );
-          // Combine distance and detection confidence for a robust match score.
-          const distanceScore = 1 - dist / maxDistance;
-          const matchScore = distanceScore * 0.7 + detection.score * 0.3;
+  // Cost matrix (nails x fingertips); pairs out of range stay forbidden
+  const candidates: (NailFingerMatch | null)[][] = [];
+  const rejectedCandidates: RejectedCandidate[] = [];
+  const cost = nailDetections.map((detection, nailIndex) => {
+    const nailCentroid = calculateNailCentroid(detection);
+    const moments = detection.maskPolygon
+      ? computePolygonMoments(detection.maskPolygon)
+      : null;
+    candidates[nailIndex] = [];
+
+    return fingertips.map((tip, tipIndex) => {
+      candidates[nailIndex][tipIndex] = null;
+      const dist = distanceBetweenPoints(tip.fingertipPosition, nailCentroid);
+      if (dist >= maxDistance || !tip.orientation || !tip.facing) {
+        return Infinity;
+      }
 
-          potentialMatches.push({
+      const orientation = tip.orientation;
+      if (plausibility.enabled) {
+        const reason = checkPlausibility(
+          nailCentroid,
+          moments,
+          tip.dipPosition,
+          tip.fingertipPosition,
+          orientation,
+          plausibility
+        );
+        if (reason) {
+          rejectedCandidates.push({
             nailDetection: detection,
-            fingertipIndex: tipIndex,
-            fingertipPosition: fingertipPos,
-            nailCentroid,
-            nailWidth: nailDimensions.width,
-            nailHeight: nailDimensions.height,
-            nailAngle: nailDimensions.angle,
-            matchConfidence: detection.score, // Use raw detection confidence for display
-            matchScore, // Internal score for finding the best match
-            handIndex,
-            handedness: hand.handedness as "Left" | "Right",
-            orientation,
+            handIndex: tip.handIndex,
+            fingertipIndex: tip.fingertipIndex,
+            reason,
           });
+          return Infinity;
         }
       }
+
+      const nailDimensions = calculateNailDimensions(detection, orientation);
+
+      // Nail length is foreshortened when the finger points at the camera
+      const lengthInPlane = Math.max(
+        0.3,
+        Math.hypot(orientation.zAxis[0], orientation.zAxis[1])
+      );
+
+      candidates[nailIndex][tipIndex] = {
+        nailDetection: detection,
+        fingertipIndex: tip.fingertipIndex,
+        fingertipPosition: tip.fingertipPosition,
+        nailCentroid,
+        nailWidth: nailDimensions.width,
+        nailHeight: nailDimensions.height,
+        nailAngle: nailDimensions.angle,
+        matchConfidence: detection.score, // Use raw detection confidence for display
+        handIndex: tip.handIndex,
+        handedness: tip.handedness,
+        orientationSource: tip.orientationSource,
+        facing: tip.facing,
+        source: "hand",
+        nailWidthMm:
+          tip.mmPerPixel !== null
+            ? nailDimensions.width * tip.mmPerPixel
+            : undefined,
+        nailLengthMm:
+          tip.mmPerPixel !== null
+            ? (nailDimensions.height * tip.mmPerPixel) / lengthInPlane
+            : undefined,
+        orientation,
+      };
+
+      return (
+        weights.distance * (dist / maxDistance) +
+        weights.score * (1 - detection.score) +
+        weights.alignment * calculateAxisMisalignment(moments, orientation)
+      );
+    });
+  });
+
+  const assignment = solveAssignment(cost);
+
+  const matches: NailFingerMatch[] = [];
+  const unmatchedNails: YoloDetection[] = [];
+  const usedFingertips = new Set<number>();
+  assignment.forEach((tipIndex, nailIndex) => {
+    const match = tipIndex >= 0 ? candidates[nailIndex][tipIndex] : null;
+    if (match) {
+      // Shape is classified for final matches only; the finger axis is
+      // Y-up, the polygon is on the Y-down canvas
+      const { zAxis } = match.orientation;
+      const polygon = match.nailDetection.maskPolygon;
+      const nailShape = polygon
+        ? classifyNailShape(
+            polygon,
+            [zAxis[0], -zAxis[1]],
+            Math.hypot(zAxis[0], zAxis[1])
+          )
+        : null;
+      matches.push(nailShape ? { ...match, nailShape } : match);
+      usedFingertips.add(tipIndex);
+    } else {
+      unmatchedNails.push(nailDetections[nailIndex]);
     }
+  });
+
+  const unmatchedFingertips: UnmatchedFingertip[] = fingertips
+    .filter((_, tipIndex) => !usedFingertips.has(tipIndex))
+    .map(({ handIndex, handedness, fingertipIndex, fingertipPosition }) => ({
+      handIndex,
+      handedness,
+      fingertipIndex,
+      fingertipPosition,
+    }));
+
+  if (rejectedCandidates.length > 0) {
+    console.log(
+      "Rejected nail-fingertip candidates:",
+      rejectedCandidates.map(
+        (rejection) =>
+          `nail ${nailDetections.indexOf(rejection.nailDetection)} → hand ${
+            rejection.handIndex
+          } ${FINGER_NAMES[FINGER_TIPS.indexOf(rejection.fingertipIndex)]}: ${
+            rejection.reason
+          }`
+      )
+    );
   }
 
-  // Deduplication: Ensure each nail and each finger is used only once.
-  // We sort by the match score so the most likely pairs are chosen first.
-  potentialMatches.sort((a, b) => b.matchScore - a.matchScore);
+  return { matches, unmatchedNails, unmatchedFingertips, rejectedCandidates };
+}
 
-  const finalMatches: NailFingerMatch[] = [];
-  const usedNailIndices = new Set<number>();
-  const usedFingerKeys = new Set<string>(); // e.g., "0-8" for hand 0, index finger
+/**
+ * Pseudo-match for a nail seen without its hand, e.g. while hand tracking
+ * drops out. The pose comes from the mask's principal axes, assuming the nail
+ * faces the camera; the finger identity, facing and metric size are carried
+ * over from `previous`, whose in-plane direction also resolves the sign of
+ * the axis. Returns null when the mask has no usable outline.
+ */
+export function buildPolygonMatch(
+  detection: YoloDetection,
+  previous: NailFingerMatch
+): NailFingerMatch | null {
+  const moments = detection.maskPolygon
+    ? computePolygonMoments(detection.maskPolygon)
+    : null;
+  if (!moments) return null;
+
+  // Previous finger direction on the Y-down canvas
+  const previousX = previous.orientation.zAxis[0];
+  const previousY = -previous.orientation.zAxis[1];
+
+  // Round outlines have no reliable long axis; keep the previous direction
+  let [axisX, axisY] =
+    moments.elongation >= 1.1 || Math.hypot(previousX, previousY) < 1e-6
+      ? moments.majorAxis
+      : [previousX, previousY];
+  if (axisX * previousX + axisY * previousY < 0) {
+    axisX = -axisX;
+    axisY = -axisY;
+  }
 
-  for (const match of potentialMatches) {
-    const nailIndex = nailDetections.indexOf(match.nailDetection);
-    const fingerKey = `${match.handIndex}-${match.fingertipIndex}`;
+  // Back to the right-handed, Y-up basis with the normal towards the camera
+  const axisLength = Math.hypot(axisX, axisY);
+  const zAxis: [number, number, number] = [
+    axisX / axisLength,
+    -axisY / axisLength,
+    0,
+  ];
+  const yAxis: [number, number, number] = [0, 0, 1];
+  const xAxis: [number, number, number] = [-zAxis[1], zAxis[0], 0]; // y × z
+  const orientation = { xAxis, yAxis, zAxis };
 
-    if (!usedNailIndices.has(nailIndex) && !usedFingerKeys.has(fingerKey)) {
-      finalMatches.push(match);
-      usedNailIndices.add(nailIndex);
-      usedFingerKeys.add(fingerKey);
-    }
-  }
+  const nailDimensions = calculateNailDimensions(detection, orientation);
 
-  return finalMatches;
+  return {
+    ...previous,
+    nailDetection: detection,
+    nailCentroid: calculateNailCentroid(detection),
+    nailWidth: nailDimensions.width,
+    nailHeight: nailDimensions.height,
+    nailAngle: nailDimensions.angle,
+    matchConfidence: detection.score,
+    nailShape: undefined,
+    source: "polygon",
+    orientation,
+  };
+}
+
+/**
+ * Main function to match nail detections to hand landmarks.
+ */
+export function matchNailsToFingertips(
+  nailDetections: YoloDetection[],
+  handDetections: HandDetection[],
+  frameWidth: number,
+  frameHeight: number,
+  options: NailMatchingOptions = {}
+): NailFingerMatch[] {
+  return assignNailsToFingertips(
+    nailDetections,
+    handDetections,
+    frameWidth,
+    frameHeight,
+    options
+  ).matches;
 }
 
 /**
@@ -0,0 +1,230 @@
+/**
+ * Natural Nail Shape Classification
+ *
+ * Classifies a nail outline as square, squoval, round, oval or almond:
+ * 1. The mask polygon is normalized into nail-local coordinates: centred,
+ *    rotated so +v runs along the finger towards the tip, scaled to unit width.
+ * 2. Shape descriptors are measured: the width profile along the nail, the
+ *    width at fixed depths below the free edge, the tip curvature (parabola
+ *    fit to the tip contour) and the aspect ratio.
+ * 3. The descriptors are compared with one prototype per shape; the closest
+ *    prototype wins and a softmax over distances gives the confidence.
+ */
+
+import { computePolygonMoments } from "./polygonGeometry";
+
+export type NailShape = "square" | "squoval" | "round" | "oval" | "almond";
+
+export interface NailShapeFeatures {
+  widthProfile: number[]; // Width at evenly spaced fractions from base to tip, max width = 1
+  tipWidthNear: number; // Width 0.1 nail widths below the tip
+  tipWidthFar: number; // Width 0.3 nail widths below the tip
+  tipCurvature: number; // Parabola coefficient of the tip contour, in width units
+  aspectRatio: number; // Length over maximum width
+}
+
+export interface NailShapeAnalysis {
+  shape: NailShape;
+  confidence: number; // Softmax probability of the chosen shape, 0-1
+  scores: Record<NailShape, number>;
+  features: NailShapeFeatures;
+}
+
+// Descriptor values of an idealized nail of each shape
+const SHAPE_PROTOTYPES: Record<
+  NailShape,
+  Omit<NailShapeFeatures, "widthProfile">
+> = {
+  square: {
+    tipCurvature: 0.15,
+    tipWidthNear: 0.98,
+    tipWidthFar: 1,
+    aspectRatio: 1,
+  },
+  squoval: {
+    tipCurvature: 0.5,
+    tipWidthNear: 0.88,
+    tipWidthFar: 1,
+    aspectRatio: 1,
+  },
+  round: {
+    tipCurvature: 1.1,
+    tipWidthNear: 0.6,
+    tipWidthFar: 0.9,
+    aspectRatio: 0.95,
+  },
+  oval: {
+    tipCurvature: 1.6,
+    tipWidthNear: 0.5,
+    tipWidthFar: 0.8,
+    aspectRatio: 1.15,
+  },
+  almond: {
+    tipCurvature: 3,
+    tipWidthNear: 0.25,
+    tipWidthFar: 0.5,
+    aspectRatio: 1.35,
+  },
+};
+
+// Typical spread of each descriptor, used to weigh prototype distances
+const FEATURE_SCALES: Omit<NailShapeFeatures, "widthProfile"> = {
+  tipCurvature: 0.3,
+  tipWidthNear: 0.08,
+  tipWidthFar: 0.06,
+  aspectRatio: 0.3,
+};
+
+const PROFILE_SAMPLES = 10;
+
+/**
+ * Width of the polygon along the horizontal line v = level
+ */
+function widthAtLevel(points: number[][], level: number): number {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < points.length; i++) {
+    const [u0, v0] = points[i];
+    const [u1, v1] = points[(i + 1) % points.length];
+    if ((v0 - level) * (v1 - level) > 0 || v0 === v1) continue;
+    const u = u0 + ((level - v0) / (v1 - v0)) * (u1 - u0);
+    min = Math.min(min, u);
+    max = Math.max(max, u);
+  }
+  return max > min ? max - min : 0;
+}
+
+/**
+ * Fit v = c - k·(u - m)² to the outermost tip contour and return k.
+ * Flat (square) tips give k near 0, pointed tips a large k.
+ */
+function fitTipCurvature(points: number[][], tipLevel: number): number {
+  // Densify so sparse simplified edges still cover the tip
+  const dense: number[][] = [];
+  for (let i = 0; i < points.length; i++) {
+    const [u0, v0] = points[i];
+    const [u1, v1] = points[(i + 1) % points.length];
+    const steps = Math.max(1, Math.ceil(Math.hypot(u1 - u0, v1 - v0) / 0.02));
+    for (let s = 0; s < steps; s++) {
+      const t = s / steps;
+      dense.push([u0 + t * (u1 - u0), v0 + t * (v1 - v0)]);
+    }
+  }
+
+  // Upper envelope of the tip region in narrow bins across the nail
+  const tipPoints = dense.filter(([, v]) => v >= tipLevel - 0.35);
+  if (tipPoints.length < 3) return 0;
+  const meanU = tipPoints.reduce((sum, [u]) => sum + u, 0) / tipPoints.length;
+  const bins = new Map<number, number>();
+  tipPoints.forEach(([u, v]) => {
+    const bin = Math.round((u - meanU) / 0.05);
+    bins.set(bin, Math.max(bins.get(bin) ?? -Infinity, v));
+  });
+  const envelope = [...bins.entries()].map(([bin, v]) => [
+    (bin * 0.05) ** 2,
+    v,
+  ]);
+  if (envelope.length < 3) return 0;
+
+  // Least squares slope of v against (u - m)²
+  const meanX = envelope.reduce((sum, [x]) => sum + x, 0) / envelope.length;
+  const meanV = envelope.reduce((sum, [, v]) => sum + v, 0) / envelope.length;
+  let covariance = 0;
+  let variance = 0;
+  envelope.forEach(([x, v]) => {
+    covariance += (x - meanX) * (v - meanV);
+    variance += (x - meanX) ** 2;
+  });
+  return variance > 0 ? Math.max(0, -covariance / variance) : 0;
+}
+
+/**
+ * Outline in nail-local coordinates: u across the nail, v along the finger
+ * towards the tip, origin at the area centroid, unit maximum width.
+ * `fingerAxis` is the finger direction on the canvas (towards the tip).
+ */
+export function normalizeNailPolygon(
+  polygon: number[][],
+  fingerAxis: [number, number]
+): { points: number[][]; length: number } | null {
+  const moments = computePolygonMoments(polygon);
+  const axisLength = Math.hypot(fingerAxis[0], fingerAxis[1]);
+  if (!moments || axisLength < 1e-6) return null;
+
+  const alongX = fingerAxis[0] / axisLength;
+  const alongY = fingerAxis[1] / axisLength;
+  const [cx, cy] = moments.centroid;
+  const local = polygon.map(([x, y]) => {
+    const dx = x - cx;
+    const dy = y - cy;
+    // u is the along-axis rotated a quarter turn
+    return [dx * -alongY + dy * alongX, dx * alongX + dy * alongY];
+  });
+
+  const vs = local.map(([, v]) => v);
+  const minV = Math.min(...vs);
+  const maxV = Math.max(...vs);
+  let maxWidth = 0;
+  for (let i = 1; i < PROFILE_SAMPLES * 2; i++) {
+    const level = minV + ((maxV - minV) * i) / (PROFILE_SAMPLES * 2);
+    maxWidth = Math.max(maxWidth, widthAtLevel(local, level));
+  }
+  if (maxWidth < 1e-6) return null;
+
+  return {
+    points: local.map(([u, v]) => [u / maxWidth, v / maxWidth]),
+    length: (maxV - minV) / maxWidth,
+  };
+}
+
+/**
+ * Classify a nail outline. `lengthInPlane` (0-1) corrects the aspect ratio
+ * for a finger tilted towards the camera. Returns null for unusable outlines.
+ */
+export function classifyNailShape(
+  polygon: number[][],
+  fingerAxis: [number, number],
+  lengthInPlane: number = 1
+): NailShapeAnalysis | null {
+  if (polygon.length < 6) return null;
+  const normalized = normalizeNailPolygon(polygon, fingerAxis);
+  if (!normalized) return null;
+
+  const { points, length } = normalized;
+  const minV = Math.min(...points.map(([, v]) => v));
+  const levelAt = (fraction: number) => minV + length * fraction;
+
+  const widthProfile = Array.from({ length: PROFILE_SAMPLES }, (_, i) =>
+    widthAtLevel(points, levelAt((i + 0.5) / PROFILE_SAMPLES))
+  );
+
+  const features: NailShapeFeatures = {
+    widthProfile,
+    tipWidthNear: widthAtLevel(points, minV + length - 0.1),
+    tipWidthFar: widthAtLevel(points, minV + length - 0.3),
+    tipCurvature: fitTipCurvature(points, levelAt(1)),
+    aspectRatio: length / Math.max(0.3, lengthInPlane),
+  };
+
+  // Softmax over scaled squared distances to each prototype
+  const shapes = Object.keys(SHAPE_PROTOTYPES) as NailShape[];
+  const distances = shapes.map((shape) => {
+    const prototype = SHAPE_PROTOTYPES[shape];
+    return (Object.keys(FEATURE_SCALES) as (keyof typeof FEATURE_SCALES)[])
+      .map(
+        (key) => ((features[key] - prototype[key]) / FEATURE_SCALES[key]) ** 2
+      )
+      .reduce((sum, d) => sum + d, 0);
+  });
+  const minDistance = Math.min(...distances);
+  const weights = distances.map((d) => Math.exp(-(d - minDistance) / 2));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+
+  const scores = {} as Record<NailShape, number>;
+  shapes.forEach((shape, i) => {
+    scores[shape] = weights[i] / total;
+  });
+  const best = shapes[distances.indexOf(minDistance)];
+
+  return { shape: best, confidence: scores[best], scores, features };
+}
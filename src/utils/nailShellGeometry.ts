@@ -0,0 +1,170 @@
+/**
+ * Mask-Conformant Nail Shell Geometry
+ *
+ * Builds a 3D nail mesh that follows the detected nail outline:
+ * 1. The mask polygon, a projection of the nail onto the image, is
+ *    unprojected into the nail plane spanned by the orientation basis.
+ * 2. The outline is triangulated as concentric rings around its centroid
+ *    (nail outlines are star-shaped from there), giving interior vertices
+ *    for the surface to curve through.
+ * 3. The surface is lifted into a shell curved across the nail width, with
+ *    thickness, a bevelled rim and a closed underside.
+ * 4. UVs are normalized to the outline's own bounds, U across the nail and
+ *    V from base to tip, so textures fit the nail rather than a slab.
+ *
+ * Local axes match the mesh basis used by ThreeNailOverlay: X runs along
+ * the finger, Y across the nail and Z along the nail normal.
+ */
+
+import * as THREE from "three";
+import { NailFingerMatch } from "./nailMatching";
+
+export interface NailShellOptions {
+  thickness: number; // Shell thickness, overlay pixels
+  curvature: number; // 0 = flat, 1 = very curved across the width
+  rings?: number; // Concentric rings of the top surface, default 4
+}
+
+// Below this, the nail is too close to edge-on to unproject its outline
+const MIN_PLANE_FACING = 0.3;
+
+/**
+ * Outline in nail-plane coordinates [along, across], in overlay pixels and
+ * relative to the outline's vertex centroid (where the mesh is placed).
+ * Returns null when the nail is nearly edge-on or the polygon too small.
+ */
+export function projectPolygonToNailPlane(
+  polygon: number[][],
+  orientation: NailFingerMatch["orientation"],
+  scaleX: number,
+  scaleY: number
+): number[][] | null {
+  if (polygon.length < 5) return null;
+
+  const { xAxis, zAxis } = orientation;
+  // Image-plane footprint of the along/across axes; its determinant is the
+  // normal's camera-facing component
+  const det = zAxis[0] * xAxis[1] - xAxis[0] * zAxis[1];
+  if (Math.abs(det) < MIN_PLANE_FACING) return null;
+
+  const cx = polygon.reduce((sum, [x]) => sum + x, 0) / polygon.length;
+  const cy = polygon.reduce((sum, [, y]) => sum + y, 0) / polygon.length;
+
+  const outline = polygon.map(([x, y]) => {
+    // Overlay space is Y-up
+    const dx = (x - cx) * scaleX;
+    const dy = -(y - cy) * scaleY;
+    return [
+      (dx * xAxis[1] - xAxis[0] * dy) / det,
+      (zAxis[0] * dy - dx * zAxis[1]) / det,
+    ];
+  });
+
+  // Counter-clockwise in (along, across) keeps the top faces pointing +Z
+  return THREE.ShapeUtils.isClockWise(
+    outline.map(([a, b]) => new THREE.Vector2(a, b))
+  )
+    ? outline.reverse()
+    : outline;
+}
+
+/**
+ * Closed nail shell over a nail-plane outline from `projectPolygonToNailPlane`
+ */
+export function createNailShellGeometry(
+  outline: number[][],
+  options: NailShellOptions
+): THREE.BufferGeometry {
+  const { thickness, curvature, rings = 4 } = options;
+
+  const alongs = outline.map(([a]) => a);
+  const acrosses = outline.map(([, b]) => b);
+  const minAlong = Math.min(...alongs);
+  const maxAlong = Math.max(...alongs);
+  const minAcross = Math.min(...acrosses);
+  const maxAcross = Math.max(...acrosses);
+  const length = Math.max(maxAlong - minAlong, 1e-6);
+  const width = Math.max(maxAcross - minAcross, 1e-6);
+  const midAcross = (minAcross + maxAcross) / 2;
+
+  // Same arch height as the generic extruded nail
+  const sagitta = width * curvature * 0.3;
+  const bevel = Math.min(thickness * 0.3, 0.15 * Math.min(width, length));
+  const lowerSurface = (across: number) =>
+    sagitta * (1 - Math.min(1, ((2 * (across - midAcross)) / width) ** 2));
+
+  const positions: number[] = [];
+  const uvs: number[] = [];
+  const addVertex = (along: number, across: number, height: number) => {
+    positions.push(along, across, height);
+    uvs.push((across - minAcross) / width, (along - minAlong) / length);
+    return positions.length / 3 - 1;
+  };
+
+  // Top surface inset by the bevel, so the rim can slope down to the outline
+  const insetOutline = outline.map(([a, b]) => {
+    const distance = Math.hypot(a, b);
+    const scale = distance > 0 ? Math.max(0.5, 1 - bevel / distance) : 1;
+    return [a * scale, b * scale];
+  });
+
+  const ringAt = (fraction: number, lift: number, points: number[][]) =>
+    points.map(([a, b]) =>
+      addVertex(a * fraction, b * fraction, lowerSurface(b * fraction) + lift)
+    );
+
+  const topCenter = addVertex(0, 0, lowerSurface(0) + thickness);
+  const topRings = Array.from({ length: rings }, (_, i) =>
+    ringAt((i + 1) / rings, thickness, insetOutline)
+  );
+  const rim = ringAt(1, thickness - bevel, outline);
+  const base = ringAt(1, 0, outline);
+  const bottomCenter = addVertex(0, 0, lowerSurface(0));
+  const bottomRings = Array.from({ length: rings }, (_, i) =>
+    ringAt((i + 1) / rings, 0, insetOutline)
+  );
+
+  const indices: number[] = [];
+  const count = outline.length;
+  const fan = (center: number, ring: number[], flip: boolean) => {
+    for (let i = 0; i < count; i++) {
+      const next = (i + 1) % count;
+      if (flip) indices.push(center, ring[next], ring[i]);
+      else indices.push(center, ring[i], ring[next]);
+    }
+  };
+  // Quads between two rings; the outer ring is `outer`
+  const strip = (inner: number[], outer: number[], flip: boolean) => {
+    for (let i = 0; i < count; i++) {
+      const next = (i + 1) % count;
+      if (flip) {
+        indices.push(inner[i], inner[next], outer[i]);
+        indices.push(inner[next], outer[next], outer[i]);
+      } else {
+        indices.push(inner[i], outer[i], inner[next]);
+        indices.push(inner[next], outer[i], outer[next]);
+      }
+    }
+  };
+
+  // Top surface, bevel and side wall face outwards; the underside faces -Z
+  fan(topCenter, topRings[0], false);
+  for (let i = 1; i < rings; i++) strip(topRings[i - 1], topRings[i], false);
+  strip(topRings[rings - 1], rim, false);
+  strip(rim, base, false);
+  strip(bottomRings[rings - 1], base, true);
+  for (let i = 1; i < rings; i++) {
+    strip(bottomRings[i - 1], bottomRings[i], true);
+  }
+  fan(bottomCenter, bottomRings[0], true);
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute(
+    "position",
+    new THREE.Float32BufferAttribute(positions, 3)
+  );
+  geometry.setAttribute("uv", new THREE.Float32BufferAttribute(uvs, 2));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+}
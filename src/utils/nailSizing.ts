@@ -0,0 +1,276 @@
+/**
+ * Press-On Nail Sizing
+ *
+ * Recommends press-on sizes from calibrated nail measurements:
+ * 1. A sizing session collects per-finger widths (mm) over several frames,
+ *    keeping only samples taken while the measurement is stable.
+ * 2. Each finger's median width is mapped to the closest size in a
+ *    configurable size chart (0 = widest, 11 = narrowest by default).
+ * 3. Confidence is the probability that the true width falls within the
+ *    chosen size's band, given the measurement spread and uncertainty.
+ * 4. Sizes are grouped into a per-hand set (thumb to pinky).
+ */
+
+import { NailMeasurement } from "./calibration";
+
+export interface SizeChartEntry {
+  size: number;
+  widthMm: number; // Nail width the size is made for
+}
+
+// Typical press-on widths; sizes get narrower as the number grows
+export const DEFAULT_SIZE_CHART: SizeChartEntry[] = [
+  { size: 0, widthMm: 18 },
+  { size: 1, widthMm: 17 },
+  { size: 2, widthMm: 16 },
+  { size: 3, widthMm: 15 },
+  { size: 4, widthMm: 14 },
+  { size: 5, widthMm: 13 },
+  { size: 6, widthMm: 12 },
+  { size: 7, widthMm: 11 },
+  { size: 8, widthMm: 10 },
+  { size: 9, widthMm: 9 },
+  { size: 10, widthMm: 8 },
+  { size: 11, widthMm: 7 },
+];
+
+export interface NailSizingOptions {
+  sizeChart: SizeChartEntry[];
+  requiredSamples: number; // Stable samples needed per finger
+  stabilityTolerance: number; // Max relative width change between samples
+  maxDurationMs: number; // A session ends with what it has after this long
+}
+
+export const DEFAULT_NAIL_SIZING_OPTIONS: NailSizingOptions = {
+  sizeChart: DEFAULT_SIZE_CHART,
+  requiredSamples: 5,
+  stabilityTolerance: 0.05,
+  maxDurationMs: 15000,
+};
+
+export interface FingerSize {
+  handedness: "Left" | "Right";
+  fingertipIndex: number;
+  widthMm: number; // Median of the stable samples
+  uncertaintyMm: number; // 1-sigma
+  size: number;
+  confidence: number; // 0-1
+  samples: number;
+}
+
+export interface HandSizeSet {
+  handedness: "Left" | "Right";
+  sizes: (number | null)[]; // Thumb, index, middle, ring, pinky; null if unmeasured
+  fingers: FingerSize[];
+  confidence: number; // Mean finger confidence, scaled by coverage of the set
+}
+
+export interface SizingResult {
+  fingers: FingerSize[];
+  hands: HandSizeSet[];
+  complete: boolean; // False when the session timed out first
+}
+
+const FINGER_TIPS = [4, 8, 12, 16, 20];
+
+interface FingerSamples {
+  handedness: "Left" | "Right";
+  fingertipIndex: number;
+  widths: number[];
+  uncertainties: number[];
+  lastWidth: number | null; // Latest width, stable or not
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Standard normal CDF (Abramowitz–Stegun 7.1.26 approximation of erf)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Closest size in the chart to a width, with the probability that the
+ * width lies in that size's band (halfway to the neighbouring sizes)
+ */
+export function recommendSize(
+  widthMm: number,
+  uncertaintyMm: number,
+  sizeChart: SizeChartEntry[] = DEFAULT_SIZE_CHART
+): { size: number; confidence: number } {
+  const chart = [...sizeChart].sort((a, b) => a.widthMm - b.widthMm);
+  let best = 0;
+  chart.forEach((entry, i) => {
+    if (
+      Math.abs(entry.widthMm - widthMm) <
+      Math.abs(chart[best].widthMm - widthMm)
+    ) {
+      best = i;
+    }
+  });
+
+  const lower =
+    best > 0 ? (chart[best - 1].widthMm + chart[best].widthMm) / 2 : -Infinity;
+  const upper =
+    best < chart.length - 1
+      ? (chart[best].widthMm + chart[best + 1].widthMm) / 2
+      : Infinity;
+  const sigma = Math.max(uncertaintyMm, 1e-6);
+  const confidence =
+    normalCdf((upper - widthMm) / sigma) - normalCdf((lower - widthMm) / sigma);
+
+  return { size: chart[best].size, confidence };
+}
+
+/**
+ * One "hold still" sizing capture. Feed it the calibrated measurements of
+ * every match update until `isComplete`, then read `getResult`.
+ */
+export class NailSizingSession {
+  private options: NailSizingOptions;
+  private fingers: Map<string, FingerSamples> = new Map();
+  private startTime: number;
+  private lastFrameKeys: string[] = [];
+
+  constructor(startTimeMs: number, options: Partial<NailSizingOptions> = {}) {
+    this.options = { ...DEFAULT_NAIL_SIZING_OPTIONS, ...options };
+    this.startTime = startTimeMs;
+  }
+
+  /**
+   * Add one frame of measurements keyed by `${handedness}_${fingertipIndex}`.
+   * A width is sampled only if it is within the stability tolerance of the
+   * same finger's previous width.
+   */
+  public addFrame(measurements: Map<string, NailMeasurement>): void {
+    this.lastFrameKeys = [...measurements.keys()];
+
+    measurements.forEach((measurement, key) => {
+      let finger = this.fingers.get(key);
+      if (!finger) {
+        const [handedness, tip] = key.split("_");
+        finger = {
+          handedness: handedness as "Left" | "Right",
+          fingertipIndex: Number(tip),
+          widths: [],
+          uncertainties: [],
+          lastWidth: null,
+        };
+        this.fingers.set(key, finger);
+      }
+
+      const previous = finger.lastWidth;
+      finger.lastWidth = measurement.widthMm;
+      if (
+        previous !== null &&
+        Math.abs(measurement.widthMm - previous) / previous <=
+          this.options.stabilityTolerance
+      ) {
+        finger.widths.push(measurement.widthMm);
+        finger.uncertainties.push(measurement.widthUncertaintyMm);
+      }
+    });
+  }
+
+  /**
+   * Stable samples of the least-sampled finger in the latest frame, out of
+   * `requiredSamples`
+   */
+  public getProgress(): { samples: number; required: number } {
+    const counts = this.lastFrameKeys.map(
+      (key) => this.fingers.get(key)?.widths.length ?? 0
+    );
+    return {
+      samples: counts.length > 0 ? Math.min(...counts) : 0,
+      required: this.options.requiredSamples,
+    };
+  }
+
+  /**
+   * Done when every finger in view has enough stable samples
+   */
+  public isComplete(): boolean {
+    const { samples, required } = this.getProgress();
+    return this.lastFrameKeys.length > 0 && samples >= required;
+  }
+
+  public isTimedOut(timestampMs: number): boolean {
+    return timestampMs - this.startTime > this.options.maxDurationMs;
+  }
+
+  public getResult(): SizingResult {
+    const { sizeChart, requiredSamples } = this.options;
+
+    const fingers: FingerSize[] = [];
+    this.fingers.forEach((finger) => {
+      if (finger.widths.length === 0) return;
+
+      const widthMm = median(finger.widths);
+      const n = finger.widths.length;
+      const spread = Math.sqrt(
+        finger.widths.reduce((sum, w) => sum + (w - widthMm) ** 2, 0) /
+          Math.max(1, n - 1)
+      );
+      // Sample noise averages out, the calibration error does not
+      const uncertaintyMm = Math.hypot(
+        spread / Math.sqrt(n),
+        median(finger.uncertainties)
+      );
+      const { size, confidence } = recommendSize(
+        widthMm,
+        uncertaintyMm,
+        sizeChart
+      );
+
+      fingers.push({
+        handedness: finger.handedness,
+        fingertipIndex: finger.fingertipIndex,
+        widthMm,
+        uncertaintyMm,
+        size,
+        // Fingers short of samples are less trustworthy
+        confidence: confidence * Math.min(1, n / requiredSamples),
+        samples: n,
+      });
+    });
+
+    const hands: HandSizeSet[] = (["Left", "Right"] as const)
+      .map((handedness) => {
+        const handFingers = FINGER_TIPS.map((tip) =>
+          fingers.find(
+            (f) => f.handedness === handedness && f.fingertipIndex === tip
+          )
+        );
+        const measured = handFingers.filter(
+          (f): f is FingerSize => f !== undefined
+        );
+        const meanConfidence =
+          measured.reduce((sum, f) => sum + f.confidence, 0) /
+          Math.max(1, measured.length);
+
+        return {
+          handedness,
+          sizes: handFingers.map((f) => f?.size ?? null),
+          fingers: measured,
+          confidence: meanConfidence * (measured.length / FINGER_TIPS.length),
+        };
+      })
+      .filter((hand) => hand.fingers.length > 0);
+
+    return { fingers, hands, complete: this.isComplete() };
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * Nail Tracker
+ *
+ * Turns per-inference nail-finger matches into persistent tracks:
+ * 1. Each track has a stable numeric ID for as long as the nail is followed.
+ * 2. Centroid, size and orientation are filtered by constant-velocity Kalman
+ *    filters, which also predict the nail between and through missed updates.
+ * 3. Matches are associated with tracks by a Hungarian assignment on predicted
+ *    centroid distance, preferring the track's own finger.
+ * 4. Tracks survive a configurable number of updates without a match.
+ * 5. A track whose hand is lost can be held for a while by nail detections
+ *    alone, through mask-only pseudo-matches that inherit its finger. Such
+ *    detections never start tracks of their own.
+ */
+
+import { solveAssignment } from "./assignment";
+import { buildPolygonMatch, NailFingerMatch } from "./nailMatching";
+import { YoloDetection } from "./yolo";
+
+export interface KalmanNoise {
+  process: number; // Acceleration variance, units²/s⁴
+  measurement: number; // Measurement variance, units²
+}
+
+export interface NailTrackerOptions {
+  maxMissedFrames: number; // Updates a track may go unmatched before it is dropped
+  maxFallbackFrames: number; // Consecutive updates a track may be held by mask-only matches
+  gateDistance: number; // Max predicted-centroid distance for association, frame pixels
+  fingerChangeCost: number; // Extra cost, in gate units, for moving to another finger
+  maxPredictionMs: number; // Cap on extrapolation past the last update
+  positionNoise: KalmanNoise; // Centroid, frame pixels
+  sizeNoise: KalmanNoise; // Nail width and length, frame pixels
+  orientationNoise: KalmanNoise; // Orientation axis components, unitless
+}
+
+export const DEFAULT_NAIL_TRACKER_OPTIONS: NailTrackerOptions = {
+  maxMissedFrames: 4,
+  maxFallbackFrames: 10,
+  gateDistance: 100,
+  fingerChangeCost: 0.5,
+  maxPredictionMs: 800,
+  positionNoise: { process: 40000, measurement: 25 },
+  sizeNoise: { process: 400, measurement: 9 },
+  orientationNoise: { process: 1, measurement: 0.0025 },
+};
+
+export interface NailTrack {
+  id: number;
+  match: NailFingerMatch; // Latest match with filtered geometry; `source` tells hand from mask-only
+  hits: number; // Updates with an associated match
+  missedFrames: number; // Consecutive updates without one
+}
+
+/**
+ * Kalman filter for one scalar with a constant-velocity motion model
+ */
+class ConstantVelocityKalman {
+  private position: number;
+  private velocity = 0;
+  // Covariance [[pp, pv], [pv, vv]]
+  private pp: number;
+  private pv = 0;
+  private vv: number;
+  private noise: KalmanNoise;
+
+  constructor(value: number, noise: KalmanNoise) {
+    this.position = value;
+    this.noise = noise;
+    this.pp = noise.measurement;
+    // Broad prior on the unknown initial velocity: one second of process noise
+    this.vv = noise.process;
+  }
+
+  /**
+   * State advanced by `dt` seconds, without changing the filter
+   */
+  public peek(dt: number): number {
+    return this.position + this.velocity * dt;
+  }
+
+  public predict(dt: number): void {
+    if (dt <= 0) return;
+    const q = this.noise.process;
+    this.position += this.velocity * dt;
+    // P = F P Fᵀ + Q for F = [[1, dt], [0, 1]] and white acceleration noise
+    this.pp += 2 * dt * this.pv + dt * dt * this.vv + (q * dt ** 4) / 4;
+    this.pv += dt * this.vv + (q * dt ** 3) / 2;
+    this.vv += q * dt * dt;
+  }
+
+  public correct(measurement: number): void {
+    const innovation = measurement - this.position;
+    const s = this.pp + this.noise.measurement;
+    const gainP = this.pp / s;
+    const gainV = this.pv / s;
+
+    this.position += gainP * innovation;
+    this.velocity += gainV * innovation;
+    // P = (I - K H) P
+    const pp = this.pp;
+    const pv = this.pv;
+    this.pp = (1 - gainP) * pp;
+    this.pv = (1 - gainP) * pv;
+    this.vv -= gainV * pv;
+  }
+}
+
+/**
+ * Filtered quantities in a fixed order: centroid x/y, width, length,
+ * then the yAxis and zAxis components
+ */
+function getTrackedValues(match: NailFingerMatch): number[] {
+  return [
+    match.nailCentroid[0],
+    match.nailCentroid[1],
+    match.nailWidth,
+    match.nailHeight,
+    ...match.orientation.yAxis,
+    ...match.orientation.zAxis,
+  ];
+}
+
+/**
+ * Rebuild a match from filtered values. The filtered axes are no longer
+ * orthonormal, so the basis is re-orthogonalized around the normal.
+ */
+function applyTrackedValues(
+  match: NailFingerMatch,
+  values: number[]
+): NailFingerMatch {
+  const [cx, cy, width, length, ...axes] = values;
+
+  const normalize = (v: number[]) => {
+    const norm = Math.hypot(v[0], v[1], v[2]) || 1;
+    return v.map((c) => c / norm) as [number, number, number];
+  };
+  const cross = (a: number[], b: number[]): [number, number, number] => [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+
+  const yAxis = normalize(axes.slice(0, 3));
+  const xAxis = normalize(cross(yAxis, axes.slice(3, 6)));
+  const zAxis = normalize(cross(xAxis, yAxis));
+
+  // The fingertip moves with the nail
+  const dx = cx - match.nailCentroid[0];
+  const dy = cy - match.nailCentroid[1];
+
+  return {
+    ...match,
+    nailCentroid: [cx, cy],
+    fingertipPosition: [
+      match.fingertipPosition[0] + dx,
+      match.fingertipPosition[1] + dy,
+    ],
+    nailWidth: Math.max(1, width),
+    nailHeight: Math.max(1, length),
+    // Same convention as nailMatching: Y-up axes drawn on a Y-down canvas
+    nailAngle: Math.atan2(-zAxis[1], zAxis[0]),
+    orientation: { xAxis, yAxis, zAxis },
+  };
+}
+
+interface TrackState extends NailTrack {
+  filters: ConstantVelocityKalman[];
+  lastMatch: NailFingerMatch; // Unfiltered fields come from here
+  lastUpdate: number; // Timestamp of the last predict/correct, ms
+  fallbackFrames: number; // Consecutive updates held by mask-only matches
+}
+
+/**
+ * Persistent, Kalman-filtered nail tracks built from nail-finger matches.
+ * Call `update` with every new set of matches and `getTracks` to render.
+ */
+export class NailTracker {
+  private options: NailTrackerOptions;
+  private tracks: TrackState[] = [];
+  private nextId = 1;
+
+  constructor(options: Partial<NailTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_NAIL_TRACKER_OPTIONS, ...options };
+  }
+
+  public setOptions(options: Partial<NailTrackerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  public getOptions(): NailTrackerOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Advance all tracks to `timestampMs` and fold in a new set of matches.
+   * `fallbackDetections` (nails without a hand match) may hold tracks the
+   * matches left unassociated. Returns the tracks after the update.
+   */
+  public update(
+    matches: NailFingerMatch[],
+    timestampMs: number,
+    fallbackDetections: YoloDetection[] = []
+  ): NailTrack[] {
+    const { gateDistance, fingerChangeCost, maxMissedFrames } = this.options;
+
+    this.tracks.forEach((track) => {
+      const dt = (timestampMs - track.lastUpdate) / 1000;
+      track.filters.forEach((filter) => filter.predict(dt));
+      track.lastUpdate = Math.max(track.lastUpdate, timestampMs);
+    });
+
+    // Tracks x matches; pairs beyond the gate are forbidden
+    const cost = this.tracks.map((track) => {
+      const predictedX = track.filters[0].peek(0);
+      const predictedY = track.filters[1].peek(0);
+      return matches.map((match) => {
+        const distance = Math.hypot(
+          match.nailCentroid[0] - predictedX,
+          match.nailCentroid[1] - predictedY
+        );
+        if (distance > gateDistance) return Infinity;
+        const sameFinger =
+          match.handedness === track.lastMatch.handedness &&
+          match.fingertipIndex === track.lastMatch.fingertipIndex;
+        return distance / gateDistance + (sameFinger ? 0 : fingerChangeCost);
+      });
+    });
+
+    const assignment = solveAssignment(cost);
+    const matchedIndices = new Set<number>();
+    const unassociated: TrackState[] = [];
+
+    assignment.forEach((matchIndex, trackIndex) => {
+      const track = this.tracks[trackIndex];
+      if (matchIndex < 0) {
+        unassociated.push(track);
+        return;
+      }
+
+      correctTrack(track, matches[matchIndex]);
+      track.fallbackFrames = 0;
+      matchedIndices.add(matchIndex);
+    });
+
+    this.holdWithFallback(unassociated, fallbackDetections).forEach(
+      (track) => track.missedFrames++
+    );
+
+    const lost = this.tracks.filter(
+      (track) => track.missedFrames > maxMissedFrames
+    );
+    if (lost.length > 0) {
+      console.log(
+        `Dropped nail tracks ${lost.map((track) => track.id).join(", ")}`
+      );
+    }
+    this.tracks = this.tracks.filter(
+      (track) => track.missedFrames <= maxMissedFrames
+    );
+
+    // Unassociated matches start new tracks
+    matches.forEach((match, matchIndex) => {
+      if (matchedIndices.has(matchIndex)) return;
+      this.tracks.push(this.createTrack(match, timestampMs));
+    });
+
+    this.tracks.forEach((track) => {
+      track.match = this.readTrack(track, 0);
+    });
+    return this.tracks.map(toNailTrack);
+  }
+
+  /**
+   * Current tracks, extrapolated to `timestampMs` when given
+   * (at most `maxPredictionMs` past the last update)
+   */
+  public getTracks(timestampMs?: number): NailTrack[] {
+    return this.tracks.map((track) => {
+      if (timestampMs === undefined) return toNailTrack(track);
+
+      const ahead = Math.min(
+        Math.max(0, timestampMs - track.lastUpdate),
+        this.options.maxPredictionMs
+      );
+      return { ...toNailTrack(track), match: this.readTrack(track, ahead) };
+    });
+  }
+
+  public reset(): void {
+    this.tracks = [];
+  }
+
+  /**
+   * Associate tracks with nail detections by predicted centroid distance
+   * and correct them with pseudo-matches built from the masks.
+   * Returns the tracks that are still unassociated.
+   */
+  private holdWithFallback(
+    tracks: TrackState[],
+    detections: YoloDetection[]
+  ): TrackState[] {
+    const { gateDistance, maxFallbackFrames } = this.options;
+    const eligible = tracks.filter(
+      (track) => track.fallbackFrames < maxFallbackFrames
+    );
+    if (eligible.length === 0 || detections.length === 0) return tracks;
+
+    const pseudoMatches = eligible.map((track) =>
+      detections.map((detection) =>
+        buildPolygonMatch(detection, track.lastMatch)
+      )
+    );
+    const cost = eligible.map((track, trackIndex) => {
+      const predictedX = track.filters[0].peek(0);
+      const predictedY = track.filters[1].peek(0);
+      return pseudoMatches[trackIndex].map((match) => {
+        if (!match) return Infinity;
+        const distance = Math.hypot(
+          match.nailCentroid[0] - predictedX,
+          match.nailCentroid[1] - predictedY
+        );
+        return distance > gateDistance ? Infinity : distance / gateDistance;
+      });
+    });
+
+    const held = new Set<TrackState>();
+    solveAssignment(cost).forEach((detectionIndex, trackIndex) => {
+      const match =
+        detectionIndex >= 0 ? pseudoMatches[trackIndex][detectionIndex] : null;
+      if (!match) return;
+
+      const track = eligible[trackIndex];
+      correctTrack(track, match);
+      track.fallbackFrames++;
+      held.add(track);
+    });
+
+    if (held.size > 0) {
+      console.log(
+        `Held nail tracks ${[...held]
+          .map((track) => track.id)
+          .join(", ")} with mask-only matches`
+      );
+    }
+    return tracks.filter((track) => !held.has(track));
+  }
+
+  private createTrack(match: NailFingerMatch, timestampMs: number): TrackState {
+    const { positionNoise, sizeNoise, orientationNoise } = this.options;
+    const noiseFor = (i: number) =>
+      i < 2 ? positionNoise : i < 4 ? sizeNoise : orientationNoise;
+
+    const filters = getTrackedValues(match).map(
+      (value, i) => new ConstantVelocityKalman(value, noiseFor(i))
+    );
+
+    return {
+      id: this.nextId++,
+      match,
+      hits: 1,
+      missedFrames: 0,
+      filters,
+      lastMatch: match,
+      lastUpdate: timestampMs,
+      fallbackFrames: 0,
+    };
+  }
+
+  private readTrack(track: TrackState, aheadMs: number): NailFingerMatch {
+    const values = track.filters.map((filter) => filter.peek(aheadMs / 1000));
+    return applyTrackedValues(track.lastMatch, values);
+  }
+}
+
+function correctTrack(track: TrackState, match: NailFingerMatch): void {
+  getTrackedValues(match).forEach((value, i) =>
+    track.filters[i].correct(value)
+  );
+  track.lastMatch = match;
+  track.hits++;
+  track.missedFrames = 0;
+}
+
+function toNailTrack(track: TrackState): NailTrack {
+  return {
+    id: track.id,
+    match: track.match,
+    hits: track.hits,
+    missedFrames: track.missedFrames,
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Non-Maximum Suppression for YOLO detections
+ *
+ * Three strategies are offered:
+ * 1. "box"  - greedy suppression by bounding box IoU.
+ * 2. "mask" - greedy suppression by instance mask IoU, so nails of adjacent
+ *    fingers whose boxes overlap on an angled hand are both kept.
+ * 3. "soft" - Gaussian Soft-NMS: overlapping detections have their scores
+ *    decayed instead of being removed outright.
+ * Suppression is per class by default.
+ */
+
+import type { DetectionMask } from "./yolo";
+
+export type NmsStrategy = "box" | "mask" | "soft";
+
+export interface NmsCandidate {
+  bbox: number[]; // [x, y, width, height] in frame pixels
+  score: number;
+  class: number;
+  mask?: DetectionMask | null; // Needed by the "mask" strategy
+}
+
+export interface NmsOptions {
+  strategy?: NmsStrategy; // Default "box"
+  iouThreshold: number; // Overlap above which a detection is suppressed
+  classAware?: boolean; // Only suppress within the same class, default true
+  softSigma?: number; // Gaussian decay width for Soft-NMS, default 0.5
+  scoreThreshold?: number; // Soft-NMS drops detections decayed below this
+}
+
+/**
+ * Calculate Intersection over Union (IoU) for two bounding boxes
+ */
+export function boxIoU(box1: number[], box2: number[]): number {
+  const [x1, y1, w1, h1] = box1;
+  const [x2, y2, w2, h2] = box2;
+
+  const intersectionX1 = Math.max(x1, x2);
+  const intersectionY1 = Math.max(y1, y2);
+  const intersectionX2 = Math.min(x1 + w1, x2 + w2);
+  const intersectionY2 = Math.min(y1 + h1, y2 + h2);
+
+  const intersectionWidth = Math.max(0, intersectionX2 - intersectionX1);
+  const intersectionHeight = Math.max(0, intersectionY2 - intersectionY1);
+  const intersectionArea = intersectionWidth * intersectionHeight;
+
+  const unionArea = w1 * h1 + w2 * h2 - intersectionArea;
+
+  return unionArea > 0 ? intersectionArea / unionArea : 0;
+}
+
+function countMaskPixels(mask: DetectionMask): number {
+  let count = 0;
+  for (let i = 0; i < mask.data.length; i++) {
+    if (mask.data[i]) count++;
+  }
+  return count;
+}
+
+/**
+ * Calculate IoU of two frame-aligned instance masks.
+ * Only the region where both masks exist can contribute to the intersection.
+ */
+export function maskIoU(
+  mask1: DetectionMask,
+  mask2: DetectionMask,
+  area1: number = countMaskPixels(mask1),
+  area2: number = countMaskPixels(mask2)
+): number {
+  const left = Math.max(mask1.x, mask2.x);
+  const top = Math.max(mask1.y, mask2.y);
+  const right = Math.min(mask1.x + mask1.width, mask2.x + mask2.width);
+  const bottom = Math.min(mask1.y + mask1.height, mask2.y + mask2.height);
+
+  let intersection = 0;
+  for (let y = top; y < bottom; y++) {
+    const row1 = (y - mask1.y) * mask1.width - mask1.x;
+    const row2 = (y - mask2.y) * mask2.width - mask2.x;
+    for (let x = left; x < right; x++) {
+      if (mask1.data[row1 + x] && mask2.data[row2 + x]) intersection++;
+    }
+  }
+
+  const union = area1 + area2 - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Suppress overlapping detections with the chosen strategy.
+ * Returns the kept detections sorted by score; Soft-NMS returns copies with
+ * their decayed scores.
+ */
+export function nonMaxSuppression<T extends NmsCandidate>(
+  candidates: T[],
+  options: NmsOptions
+): T[] {
+  const { strategy = "box", classAware = true } = options;
+  if (candidates.length === 0) return [];
+
+  // Group by class so different classes never suppress each other
+  const groups = new Map<number, T[]>();
+  candidates.forEach((candidate) => {
+    const key = classAware ? candidate.class : 0;
+    const group = groups.get(key);
+    if (group) {
+      group.push(candidate);
+    } else {
+      groups.set(key, [candidate]);
+    }
+  });
+
+  const kept: T[] = [];
+  groups.forEach((group) => {
+    kept.push(
+      ...(strategy === "soft"
+        ? softSuppress(group, options)
+        : greedySuppress(group, options, strategy === "mask"))
+    );
+  });
+
+  return kept.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Greedy NMS: keep the best detection, drop everything overlapping it, repeat.
+ * Detections without a decoded mask fall back to box IoU.
+ */
+function greedySuppress<T extends NmsCandidate>(
+  candidates: T[],
+  options: NmsOptions,
+  useMasks: boolean
+): T[] {
+  const sorted = [...candidates].sort((a, b) => b.score - a.score);
+  const areas = sorted.map((candidate) =>
+    useMasks && candidate.mask ? countMaskPixels(candidate.mask) : 0
+  );
+
+  const keep: T[] = [];
+  const suppress = new Set<number>();
+
+  for (let i = 0; i < sorted.length; i++) {
+    if (suppress.has(i)) continue;
+
+    keep.push(sorted[i]);
+
+    for (let j = i + 1; j < sorted.length; j++) {
+      if (suppress.has(j)) continue;
+
+      const boxOverlap = boxIoU(sorted[i].bbox, sorted[j].bbox);
+      // Masks live inside their boxes, so disjoint boxes need no mask check
+      if (boxOverlap === 0) continue;
+
+      const maskA = sorted[i].mask;
+      const maskB = sorted[j].mask;
+      const iou =
+        useMasks && maskA && maskB
+          ? maskIoU(maskA, maskB, areas[i], areas[j])
+          : boxOverlap;
+
+      if (iou > options.iouThreshold) {
+        suppress.add(j);
+      }
+    }
+  }
+
+  return keep;
+}
+
+/**
+ * Gaussian Soft-NMS (Bodla et al., 2017).
+ * Scores of detections overlapping a kept one decay by exp(-iou² / sigma);
+ * only pairs above the IoU threshold are decayed.
+ */
+function softSuppress<T extends NmsCandidate>(
+  candidates: T[],
+  options: NmsOptions
+): T[] {
+  const { softSigma = 0.5, scoreThreshold = 0 } = options;
+  const remaining = candidates.map((candidate) => ({ ...candidate }));
+  const keep: T[] = [];
+
+  while (remaining.length > 0) {
+    // Pick the current best
+    let best = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (remaining[i].score > remaining[best].score) best = i;
+    }
+    const [current] = remaining.splice(best, 1);
+    if (current.score < scoreThreshold) break;
+    keep.push(current);
+
+    for (let i = remaining.length - 1; i >= 0; i--) {
+      const iou = boxIoU(current.bbox, remaining[i].bbox);
+      if (iou > options.iouThreshold) {
+        remaining[i].score *= Math.exp(-(iou * iou) / softSigma);
+      }
+      if (remaining[i].score < scoreThreshold) {
+        remaining.splice(i, 1);
+      }
+    }
+  }
+
+  return keep;
+}
@@ -0,0 +1,196 @@
+/**
+ * One Euro Filter for Hand Landmarks
+ *
+ * Smooths MediaPipe landmarks before they reach nail matching:
+ * 1. A scalar One Euro filter (Casiez et al., CHI 2012): a low-pass filter
+ *    whose cutoff rises with speed, so slow jitter is removed while fast
+ *    motion stays responsive.
+ * 2. `HandLandmarkSmoother`, which keeps one filter per hand, per landmark
+ *    and per axis for both image and world landmarks.
+ *
+ * `minCutoff` (Hz) sets smoothing at rest; `beta` sets how quickly the
+ * cutoff opens up with speed.
+ */
+
+import { HandDetection, HandLandmark } from "./mediapipe";
+
+export interface OneEuroFilterOptions {
+  minCutoff: number; // Cutoff frequency at rest, Hz
+  beta: number; // Speed coefficient; higher reacts faster to motion
+  dCutoff: number; // Cutoff for the derivative estimate, Hz
+}
+
+// Tuned for normalized landmark coordinates (0-1 across the frame)
+export const DEFAULT_ONE_EURO_OPTIONS: OneEuroFilterOptions = {
+  minCutoff: 0.5,
+  beta: 20,
+  dCutoff: 1.0,
+};
+
+function smoothingFactor(cutoff: number, elapsedSeconds: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / elapsedSeconds);
+}
+
+export class OneEuroFilter {
+  private options: OneEuroFilterOptions;
+  private previousValue: number | null = null;
+  private previousDerivative = 0;
+  private previousTimestamp = 0;
+
+  constructor(options: OneEuroFilterOptions = DEFAULT_ONE_EURO_OPTIONS) {
+    this.options = { ...options };
+  }
+
+  public setOptions(options: Partial<OneEuroFilterOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Filter one sample taken at `timestampMs`
+   */
+  public filter(value: number, timestampMs: number): number {
+    if (this.previousValue === null) {
+      this.previousValue = value;
+      this.previousTimestamp = timestampMs;
+      return value;
+    }
+
+    const elapsedSeconds = (timestampMs - this.previousTimestamp) / 1000;
+    if (elapsedSeconds <= 0) {
+      return this.previousValue;
+    }
+
+    // Estimate the speed, itself low-pass filtered
+    const derivative = (value - this.previousValue) / elapsedSeconds;
+    const derivativeAlpha = smoothingFactor(
+      this.options.dCutoff,
+      elapsedSeconds
+    );
+    const smoothedDerivative =
+      derivativeAlpha * derivative +
+      (1 - derivativeAlpha) * this.previousDerivative;
+
+    // Faster movement opens the cutoff to reduce lag
+    const cutoff =
+      this.options.minCutoff + this.options.beta * Math.abs(smoothedDerivative);
+    const alpha = smoothingFactor(cutoff, elapsedSeconds);
+    const filtered = alpha * value + (1 - alpha) * this.previousValue;
+
+    this.previousValue = filtered;
+    this.previousDerivative = smoothedDerivative;
+    this.previousTimestamp = timestampMs;
+    return filtered;
+  }
+
+  public reset(): void {
+    this.previousValue = null;
+    this.previousDerivative = 0;
+  }
+}
+
+class LandmarkSetFilter {
+  private options: OneEuroFilterOptions;
+  private filters: OneEuroFilter[][] = [];
+
+  constructor(options: OneEuroFilterOptions) {
+    this.options = options;
+  }
+
+  public setOptions(options: OneEuroFilterOptions): void {
+    this.options = options;
+    this.filters.forEach((axes) =>
+      axes.forEach((filter) => filter.setOptions(options))
+    );
+  }
+
+  public filter(
+    landmarks: HandLandmark[],
+    timestampMs: number
+  ): HandLandmark[] {
+    return landmarks.map((landmark, i) => {
+      if (!this.filters[i]) {
+        this.filters[i] = [0, 1, 2].map(() => new OneEuroFilter(this.options));
+      }
+      const [fx, fy, fz] = this.filters[i];
+      return {
+        x: fx.filter(landmark.x, timestampMs),
+        y: fy.filter(landmark.y, timestampMs),
+        z: fz.filter(landmark.z, timestampMs),
+      };
+    });
+  }
+}
+
+interface HandFilterState {
+  landmarks: LandmarkSetFilter;
+  worldLandmarks: LandmarkSetFilter;
+}
+
+/**
+ * Per-hand One Euro filtering of all 21 landmarks.
+ * Hands are keyed by handedness, which is stable between frames while the
+ * order of MediaPipe's results is not.
+ */
+export class HandLandmarkSmoother {
+  private options: OneEuroFilterOptions;
+  private hands: Map<string, HandFilterState> = new Map();
+
+  constructor(options: Partial<OneEuroFilterOptions> = {}) {
+    this.options = { ...DEFAULT_ONE_EURO_OPTIONS, ...options };
+  }
+
+  public setOptions(options: Partial<OneEuroFilterOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.hands.forEach((state) => {
+      state.landmarks.setOptions(this.options);
+      state.worldLandmarks.setOptions(this.options);
+    });
+  }
+
+  public getOptions(): OneEuroFilterOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Smooth the hands of one frame. Hands missing from the frame lose their
+   * filter state so they restart cleanly when they reappear.
+   */
+  public filter(hands: HandDetection[], timestampMs: number): HandDetection[] {
+    const seen = new Set<string>();
+
+    const filtered = hands.map((hand) => {
+      // Two hands of the same handedness can't share one filter
+      let key = hand.handedness;
+      if (seen.has(key)) key = `${key}_${seen.size}`;
+      seen.add(key);
+
+      let state = this.hands.get(key);
+      if (!state) {
+        state = {
+          landmarks: new LandmarkSetFilter(this.options),
+          worldLandmarks: new LandmarkSetFilter(this.options),
+        };
+        this.hands.set(key, state);
+      }
+
+      return {
+        ...hand,
+        landmarks: state.landmarks.filter(hand.landmarks, timestampMs),
+        worldLandmarks: hand.worldLandmarks
+          ? state.worldLandmarks.filter(hand.worldLandmarks, timestampMs)
+          : undefined,
+      };
+    });
+
+    this.hands.forEach((_, key) => {
+      if (!seen.has(key)) this.hands.delete(key);
+    });
+
+    return filtered;
+  }
+
+  public reset(): void {
+    this.hands.clear();
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Polygon Shape Measures
+ *
+ * Area moments of nail outlines, computed exactly from the polygon with
+ * Green's theorem so they don't depend on how densely it was simplified:
+ * 1. Area and area centroid.
+ * 2. Principal (long) axis from the second moments.
+ * 3. Elongation, the ratio of the principal axis spreads.
+ */
+
+export interface PolygonMoments {
+  area: number; // Always positive, in squared polygon units
+  centroid: [number, number];
+  majorAxis: [number, number]; // Unit vector along the longest spread
+  elongation: number; // >= 1; 1 for a circle or square
+}
+
+/**
+ * Area, centroid and principal axis of a closed polygon.
+ * Returns null for degenerate polygons with (near) zero area.
+ */
+export function computePolygonMoments(
+  polygon: number[][]
+): PolygonMoments | null {
+  if (polygon.length < 3) return null;
+
+  let area2 = 0; // Twice the signed area
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumYY = 0;
+  let sumXY = 0;
+
+  for (let i = 0; i < polygon.length; i++) {
+    const [x0, y0] = polygon[i];
+    const [x1, y1] = polygon[(i + 1) % polygon.length];
+    const cross = x0 * y1 - x1 * y0;
+
+    area2 += cross;
+    sumX += (x0 + x1) * cross;
+    sumY += (y0 + y1) * cross;
+    sumXX += (x0 * x0 + x0 * x1 + x1 * x1) * cross;
+    sumYY += (y0 * y0 + y0 * y1 + y1 * y1) * cross;
+    sumXY += (x0 * y1 + 2 * x0 * y0 + 2 * x1 * y1 + x1 * y0) * cross;
+  }
+
+  if (Math.abs(area2) < 1e-9) return null;
+
+  // Signs cancel in the ratios, so winding order doesn't matter
+  const area = area2 / 2;
+  const cx = sumX / (3 * area2);
+  const cy = sumY / (3 * area2);
+
+  // Central second moments per unit area (covariance of the filled shape)
+  const varX = sumXX / 12 / area - cx * cx;
+  const varY = sumYY / 12 / area - cy * cy;
+  const covXY = sumXY / 24 / area - cx * cy;
+
+  const mean = (varX + varY) / 2;
+  const spread = Math.hypot((varX - varY) / 2, covXY);
+  const major = mean + spread;
+  const minor = Math.max(mean - spread, 1e-12);
+  const angle = 0.5 * Math.atan2(2 * covXY, varX - varY);
+
+  return {
+    area: Math.abs(area),
+    centroid: [cx, cy],
+    majorAxis: [Math.cos(angle), Math.sin(angle)],
+    elongation: Math.sqrt(major / minor),
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Nail Pose Smoothing
+ *
+ * Smooths the full pose of each matched nail between inference updates:
+ * 1. Orientation is blended as a quaternion (slerp-based EMA), so all three
+ *    axes stay orthonormal and rotate along the shortest path.
+ * 2. A sudden orientation jump is treated as an outlier and held back until
+ *    it persists for a few updates, which filters single bad landmark frames.
+ * 3. Centroid, fingertip position and nail dimensions are smoothed with EMAs.
+ *
+ * Poses are keyed by hand and finger, like the matches themselves.
+ */
+
+import * as THREE from "three";
+import { NailFingerMatch } from "./nailMatching";
+
+export interface NailPoseSmootherOptions {
+  orientationAlpha: number; // Slerp weight of a new orientation, 0-1
+  positionAlpha: number; // EMA weight of a new centroid, 0-1
+  sizeAlpha: number; // EMA weight of new dimensions, 0-1
+  outlierAngle: number; // Degrees; larger jumps are held back as outliers
+  maxOutlierFrames: number; // Consecutive outliers after which the jump is accepted
+  maxAgeMs: number; // Poses not updated for this long are forgotten
+}
+
+export const DEFAULT_POSE_SMOOTHER_OPTIONS: NailPoseSmootherOptions = {
+  orientationAlpha: 0.5,
+  positionAlpha: 0.6,
+  sizeAlpha: 0.4,
+  outlierAngle: 40,
+  maxOutlierFrames: 2,
+  maxAgeMs: 2000,
+};
+
+interface PoseState {
+  quaternion: THREE.Quaternion;
+  centroid: [number, number];
+  fingertip: [number, number];
+  width: number;
+  height: number;
+  widthMm?: number;
+  lengthMm?: number;
+  outlierFrames: number;
+  lastUpdate: number;
+}
+
+function orientationToQuaternion(
+  orientation: NailFingerMatch["orientation"]
+): THREE.Quaternion {
+  const basis = new THREE.Matrix4().makeBasis(
+    new THREE.Vector3().fromArray(orientation.xAxis),
+    new THREE.Vector3().fromArray(orientation.yAxis),
+    new THREE.Vector3().fromArray(orientation.zAxis)
+  );
+  return new THREE.Quaternion().setFromRotationMatrix(basis);
+}
+
+function quaternionToOrientation(
+  quaternion: THREE.Quaternion
+): NailFingerMatch["orientation"] {
+  const axis = (x: number, y: number, z: number) =>
+    new THREE.Vector3(x, y, z).applyQuaternion(quaternion).toArray() as [
+      number,
+      number,
+      number
+    ];
+  return {
+    xAxis: axis(1, 0, 0),
+    yAxis: axis(0, 1, 0),
+    zAxis: axis(0, 0, 1),
+  };
+}
+
+const ema = (previous: number, next: number, alpha: number) =>
+  previous + alpha * (next - previous);
+
+const emaOptional = (
+  previous: number | undefined,
+  next: number | undefined,
+  alpha: number
+) =>
+  next === undefined
+    ? undefined
+    : previous === undefined
+    ? next
+    : ema(previous, next, alpha);
+
+/**
+ * Per-nail pose smoothing keyed by hand and finger
+ */
+export class NailPoseSmoother {
+  private options: NailPoseSmootherOptions;
+  private poses: Map<string, PoseState> = new Map();
+
+  constructor(options: Partial<NailPoseSmootherOptions> = {}) {
+    this.options = { ...DEFAULT_POSE_SMOOTHER_OPTIONS, ...options };
+  }
+
+  public setOptions(options: Partial<NailPoseSmootherOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  public getOptions(): NailPoseSmootherOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Blend each match into its nail's smoothed pose and return the matches
+   * with smoothed geometry
+   */
+  public smooth(
+    matches: NailFingerMatch[],
+    timestampMs: number
+  ): NailFingerMatch[] {
+    const {
+      orientationAlpha,
+      positionAlpha,
+      sizeAlpha,
+      outlierAngle,
+      maxOutlierFrames,
+      maxAgeMs,
+    } = this.options;
+
+    const smoothed = matches.map((match) => {
+      const key = `${match.handedness}_${match.fingertipIndex}`;
+      const measured = orientationToQuaternion(match.orientation);
+      let pose = this.poses.get(key);
+
+      if (!pose) {
+        pose = {
+          quaternion: measured,
+          centroid: match.nailCentroid,
+          fingertip: match.fingertipPosition,
+          width: match.nailWidth,
+          height: match.nailHeight,
+          widthMm: match.nailWidthMm,
+          lengthMm: match.nailLengthMm,
+          outlierFrames: 0,
+          lastUpdate: timestampMs,
+        };
+        this.poses.set(key, pose);
+      } else {
+        const jumpDegrees = (pose.quaternion.angleTo(measured) * 180) / Math.PI;
+
+        if (
+          jumpDegrees > outlierAngle &&
+          pose.outlierFrames < maxOutlierFrames
+        ) {
+          // Hold the previous orientation; a real rotation will persist
+          pose.outlierFrames++;
+        } else if (jumpDegrees > outlierAngle) {
+          // The jump persisted, so follow it instead of blending through it
+          pose.quaternion.copy(measured);
+          pose.outlierFrames = 0;
+        } else {
+          pose.quaternion.slerp(measured, orientationAlpha);
+          pose.outlierFrames = 0;
+        }
+
+        pose.centroid = [
+          ema(pose.centroid[0], match.nailCentroid[0], positionAlpha),
+          ema(pose.centroid[1], match.nailCentroid[1], positionAlpha),
+        ];
+        pose.fingertip = [
+          ema(pose.fingertip[0], match.fingertipPosition[0], positionAlpha),
+          ema(pose.fingertip[1], match.fingertipPosition[1], positionAlpha),
+        ];
+        pose.width = ema(pose.width, match.nailWidth, sizeAlpha);
+        pose.height = ema(pose.height, match.nailHeight, sizeAlpha);
+        pose.widthMm = emaOptional(pose.widthMm, match.nailWidthMm, sizeAlpha);
+        pose.lengthMm = emaOptional(
+          pose.lengthMm,
+          match.nailLengthMm,
+          sizeAlpha
+        );
+        pose.lastUpdate = timestampMs;
+      }
+
+      const orientation = quaternionToOrientation(pose.quaternion);
+      return {
+        ...match,
+        nailCentroid: pose.centroid,
+        fingertipPosition: pose.fingertip,
+        nailWidth: pose.width,
+        nailHeight: pose.height,
+        nailWidthMm: pose.widthMm,
+        nailLengthMm: pose.lengthMm,
+        // Same convention as nailMatching: Y-up axes drawn on a Y-down canvas
+        nailAngle: Math.atan2(-orientation.zAxis[1], orientation.zAxis[0]),
+        orientation,
+      };
+    });
+
+    this.poses.forEach((pose, key) => {
+      if (timestampMs - pose.lastUpdate > maxAgeMs) this.poses.delete(key);
+    });
+
+    return smoothed;
+  }
+
+  public reset(): void {
+    this.poses.clear();
+  }
+}
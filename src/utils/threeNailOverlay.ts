@@ -21,10 +21,18 @@
  * - Applies rotation using Quaternions to avoid gimbal lock and instability.
  * - Nail geometry is procedurally generated and cached to optimize performance.
  * - Centralized `updateConfig` method for cleaner state management.
+ * - Fades nails on side-on fingers and hides nails on palm-facing fingers.
+ * - In 3D, nails are shells shaped like the detected mask outline, with the
+ *   generic extruded nail as a fallback when no outline can be used.
  */
 
 import * as THREE from "three";
 import { NailFingerMatch } from "./nailMatching";
+import { NailTrack } from "./nailTracker";
+import {
+  createNailShellGeometry,
+  projectPolygonToNailPlane,
+} from "./nailShellGeometry";
 
 export interface ThreeNailOverlayConfig {
   canvasWidth: number;
@@ -304,20 +312,21 @@ export class ThreeNailOverlay {
     this.render(); // Re-render with new texture
   }
 
+  /**
+   * Render one nail per track. Meshes are keyed by track ID, so a nail
+   * keeps its mesh while its track coasts through missed detections.
+   */
   public updateNailOverlays(
-    matches: NailFingerMatch[],
+    tracks: NailTrack[],
     scaleX: number,
     scaleY: number
   ): void {
-    const currentKeys = new Set(
-      matches.map((m) => `${m.handedness}_${m.fingertipIndex}`)
-    );
+    const currentKeys = new Set(tracks.map((track) => `track_${track.id}`));
 
     // Remove old meshes
     this.nailMeshes.forEach((mesh, key) => {
       if (!currentKeys.has(key)) {
-        this.scene.remove(mesh);
-        mesh.geometry.dispose();
+        this.disposeNailMesh(mesh);
         this.nailMeshes.delete(key);
       }
     });
@@ -332,33 +341,57 @@ export class ThreeNailOverlay {
     });
 
     // Update or create new nail meshes (texture is now part of the nail material)
-    for (const match of matches) {
-      this.updateNailMesh(match, scaleX, scaleY);
+    for (const track of tracks) {
+      this.updateNailMesh(`track_${track.id}`, track.match, scaleX, scaleY);
     }
 
     this.render();
   }
 
   private updateNailMesh(
+    key: string,
     match: NailFingerMatch,
     scaleX: number,
     scaleY: number
   ): void {
-    const key = `${match.handedness}_${match.fingertipIndex}`;
     let mesh = this.nailMeshes.get(key);
 
-    const nailScaleFactor = 1.3; // Make nails slightly larger than detected mask
+    // Generic nails are drawn slightly larger than the detected mask; mask
+    // shells follow the outline itself
+    const nailScaleFactor = 1.3;
     const width = match.nailWidth * scaleX * nailScaleFactor;
     const length = match.nailHeight * scaleY * nailScaleFactor;
 
+    // In 3D the mesh follows the mask outline. The outline is in nail-local
+    // coordinates, so geometry is built once per mask, not as the tracked
+    // pose moves between inferences; that includes the generic fallback for
+    // a mask that was too edge-on to use.
+    const maskPolygon = this.config.enable3DRotation
+      ? match.nailDetection.maskPolygon
+      : undefined;
+
     const needsNewGeometry =
       !mesh ||
       mesh.userData.needsNewGeometry ||
-      mesh.userData.width !== width ||
-      mesh.userData.length !== length;
+      mesh.userData.sourcePolygon !== maskPolygon ||
+      (maskPolygon === undefined &&
+        (mesh.userData.width !== width || mesh.userData.length !== length));
 
     if (needsNewGeometry) {
-      const geometry = this.createNailGeometry(width, length);
+      const outline = maskPolygon
+        ? projectPolygonToNailPlane(
+            maskPolygon,
+            match.orientation,
+            scaleX,
+            scaleY
+          )
+        : null;
+      const geometry = outline
+        ? createNailShellGeometry(outline, {
+            thickness: this.config.nailThickness,
+            curvature: this.config.nailCurvature,
+          })
+        : this.createNailGeometry(width, length);
       if (mesh) {
         mesh.geometry.dispose();
         mesh.geometry = geometry;
@@ -367,7 +400,13 @@ export class ThreeNailOverlay {
         this.nailMeshes.set(key, mesh);
         this.scene.add(mesh);
       }
-      mesh.userData = { width, length, needsNewGeometry: false };
+      mesh.userData = {
+        ...mesh.userData,
+        width,
+        length,
+        sourcePolygon: maskPolygon, // Mask the geometry was built for
+        needsNewGeometry: false,
+      };
     }
 
     // Ensure mesh exists before proceeding
@@ -384,6 +423,40 @@ export class ThreeNailOverlay {
 
     // --- ROTATION ---
     this.applyNailRotation(mesh, match);
+
+    // --- FACING ---
+    this.applyFacingFade(mesh, match);
+  }
+
+  /**
+   * Fade nails on side-on fingers and hide those on fingers showing their pad.
+   * Faded meshes get their own copy of the shared nail material.
+   */
+  private applyFacingFade(mesh: THREE.Mesh, match: NailFingerMatch): void {
+    const fade = match.facing.opacity;
+    mesh.visible = fade > 0;
+
+    if (fade >= 1) {
+      mesh.material = this.nailMaterial;
+      return;
+    }
+
+    let fadeMaterial = mesh.userData.fadeMaterial as
+      | THREE.MeshStandardMaterial
+      | undefined;
+    if (!fadeMaterial) {
+      fadeMaterial = this.nailMaterial.clone();
+      mesh.userData.fadeMaterial = fadeMaterial;
+    }
+    fadeMaterial.copy(this.nailMaterial);
+    fadeMaterial.opacity = this.nailMaterial.opacity * fade;
+    mesh.material = fadeMaterial;
+  }
+
+  private disposeNailMesh(mesh: THREE.Mesh): void {
+    this.scene.remove(mesh);
+    mesh.geometry.dispose();
+    (mesh.userData.fadeMaterial as THREE.Material | undefined)?.dispose();
   }
 
   private applyNailRotation(mesh: THREE.Mesh, match: NailFingerMatch): void {
@@ -392,7 +465,8 @@ export class ThreeNailOverlay {
 
       // **FIX:** The orientation vectors from `nailMatching` are now pre-converted
       // into a right-handed, Y-up coordinate system suitable for Three.js.
-      // No further conversion is needed here.
+      // They come from metric world landmarks when MediaPipe provides them,
+      // so depth tilt is physically consistent. No further conversion is needed here.
       let threeX = new THREE.Vector3().fromArray(xAxis); // Width
       let threeY = new THREE.Vector3().fromArray(yAxis); // Normal
       let threeZ = new THREE.Vector3().fromArray(zAxis); // Length
@@ -590,10 +664,7 @@ export class ThreeNailOverlay {
     this.textureMaterial?.dispose();
 
     // Dispose of nail meshes
-    this.nailMeshes.forEach((mesh) => {
-      this.scene.remove(mesh);
-      mesh.geometry.dispose();
-    });
+    this.nailMeshes.forEach((mesh) => this.disposeNailMesh(mesh));
     this.nailMeshes.clear();
 
     // Dispose of texture meshes
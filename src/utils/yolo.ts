@@ -1,32 +1,135 @@
 import * as tf from "@tensorflow/tfjs";
+import { simplifyClosedPolygon, traceContours } from "./contours";
+import { DEFAULT_MODEL_DESCRIPTOR, ModelDescriptor } from "./modelDescriptor";
+import { NmsCandidate, NmsStrategy, nonMaxSuppression } from "./nms";
+
+/**
+ * Binary instance mask aligned to the frame pixel grid.
+ * It covers the detection box only; `x`/`y` locate it in the frame.
+ */
+export interface DetectionMask {
+  data: Uint8Array; // Row-major, 1 = nail, 0 = background
+  width: number;
+  height: number;
+  x: number; // Left edge in frame pixels
+  y: number; // Top edge in frame pixels
+}
 
 export interface YoloDetection {
   bbox: number[]; // [x, y, width, height]
   score: number;
   class: number;
-  mask?: number[][]; // 2D mask array
+  className?: string; // From the model metadata `names`
+  mask?: DetectionMask; // Frame-aligned mask inside the bbox
   maskPolygon?: number[][]; // Array of [x, y] points for accurate boundary
+  maskHoles?: number[][][]; // Holes inside the outline, same format as maskPolygon
 }
 
+export interface YoloProcessOptions {
+  confidenceThreshold?: number; // Minimum detection score, default 0.25
+  nmsThreshold?: number; // IoU above which boxes are suppressed, default 0.45
+  nmsStrategy?: NmsStrategy; // "box", "mask" or "soft", default "box"
+  classAwareNms?: boolean; // Only suppress within the same class, default true
+  softNmsSigma?: number; // Gaussian decay width for "soft", default 0.5
+  polygonEpsilon?: number; // Douglas–Peucker tolerance in frame pixels, default 1
+}
+
+// A decoded prediction before NMS and mask post-processing
+interface DetectionCandidate extends NmsCandidate {
+  className: string;
+  maskCoeffs: number[];
+}
+
+// Mask NMS first drops near-identical boxes (the same nail predicted by
+// neighbouring anchors) so only a bounded set of masks has to be decoded
+const MASK_NMS_PREFILTER_IOU = 0.85;
+const MASK_NMS_MAX_CANDIDATES = 64;
+
 export interface YoloOutput {
   detections: YoloDetection[];
   maskWidth: number;
   maskHeight: number;
 }
 
+/**
+ * Aspect-preserving transform used to fit a frame into the square model input.
+ * A frame point maps to the model input as `input = frame * scale + pad`.
+ */
+export interface LetterboxTransform {
+  scale: number;
+  padX: number;
+  padY: number;
+  inputSize: number; // Side of the square model input, e.g. 640
+  sourceWidth: number; // Original frame width in pixels
+  sourceHeight: number; // Original frame height in pixels
+}
+
+export interface PreprocessedFrame {
+  tensor: tf.Tensor;
+  letterbox: LetterboxTransform;
+}
+
+// Ultralytics pads letterboxed images with gray (114, 114, 114)
+const LETTERBOX_PAD_VALUE = 114 / 255;
+
+/**
+ * Compute the letterbox transform for a frame of the given size
+ */
+export function computeLetterbox(
+  sourceWidth: number,
+  sourceHeight: number,
+  inputSize: number = DEFAULT_MODEL_DESCRIPTOR.inputSize
+): LetterboxTransform {
+  const scale = Math.min(inputSize / sourceWidth, inputSize / sourceHeight);
+  const resizedWidth = Math.round(sourceWidth * scale);
+  const resizedHeight = Math.round(sourceHeight * scale);
+
+  return {
+    scale,
+    padX: Math.floor((inputSize - resizedWidth) / 2),
+    padY: Math.floor((inputSize - resizedHeight) / 2),
+    inputSize,
+    sourceWidth,
+    sourceHeight,
+  };
+}
+
+/**
+ * Map a point from model input pixels back to original frame pixels
+ */
+export function inputToFramePoint(
+  x: number,
+  y: number,
+  letterbox: LetterboxTransform
+): [number, number] {
+  return [
+    (x - letterbox.padX) / letterbox.scale,
+    (y - letterbox.padY) / letterbox.scale,
+  ];
+}
+
 /**
  * Process YOLOv8 segmentation model output
  * Expected output format from YOLOv8-seg:
- * - Output 0: [1, features, 8400] where features include [x,y,w,h,conf,mask_coeffs...]
+ * - Output 0: [1, features, anchors] where features are
+ *   [x,y,w,h, class_scores (numClasses)..., mask_coeffs...]
  * - Output 1: [1, mask_channels, mask_height, mask_width] segmentation prototypes
+ * The anchor count and class list come from the model descriptor.
  */
-export function processYoloOutput(
+export async function processYoloOutput(
   outputs: tf.Tensor[],
-  inputWidth: number,
-  inputHeight: number,
-  confidenceThreshold: number = 0.25,
-  nmsThreshold: number = 0.45
-): YoloOutput {
+  letterbox: LetterboxTransform,
+  descriptor: ModelDescriptor = DEFAULT_MODEL_DESCRIPTOR,
+  options: YoloProcessOptions = {}
+): Promise<YoloOutput> {
+  const {
+    confidenceThreshold = 0.25,
+    nmsThreshold = 0.45,
+    nmsStrategy = "box",
+    classAwareNms = true,
+    softNmsSigma = 0.5,
+    polygonEpsilon = 1.0,
+  } = options;
   const detections: YoloDetection[] = [];
 
   if (outputs.length < 1) {
@@ -52,8 +155,11 @@ export function processYoloOutput(
     let numFeatures: number;
 
     if (predictions.shape.length === 3) {
-      if (predictions.shape[1] === 8400 && predictions.shape[2] > 100) {
-        // Shape is [1, 8400, features] - need to transpose
+      if (
+        predictions.shape[1] === descriptor.numAnchors &&
+        predictions.shape[2] !== descriptor.numAnchors
+      ) {
+        // Shape is [1, anchors, features] - need to transpose
         processedPredictions = predictions.transpose([0, 2, 1]);
         console.log("Transposed to shape:", processedPredictions.shape);
       }
@@ -69,65 +175,81 @@ export function processYoloOutput(
       return { detections, maskWidth: 0, maskHeight: 0 };
     }
 
-    const predictionData = processedPredictions.dataSync();
+    const predictionData = await processedPredictions.data();
+
+    if (numDetections !== descriptor.numAnchors) {
+      console.warn(
+        `Model predicts ${numDetections} anchors, descriptor expects ${descriptor.numAnchors}`
+      );
+    }
 
-    // Determine if this model has mask coefficients
-    const hasMaskCoeffs = numFeatures > 5; // Basic YOLO has 5 features (x,y,w,h,conf), segmentation has more
-    const numMaskCoeffs = hasMaskCoeffs ? Math.max(0, numFeatures - 5) : 0;
+    // Box (4) and one score per class come first; anything after is mask coefficients
+    const numClasses = descriptor.numClasses;
+    const coeffOffset = 4 + numClasses;
+    const numMaskCoeffs = Math.max(0, numFeatures - coeffOffset);
+    const hasMaskCoeffs = numMaskCoeffs > 0;
 
     console.log(
-      `Processing: features=${numFeatures}, detections=${numDetections}, maskCoeffs=${numMaskCoeffs}`
+      `Processing: features=${numFeatures}, detections=${numDetections}, classes=${numClasses}, maskCoeffs=${numMaskCoeffs}`
     );
     console.log("First few prediction values:", predictionData.slice(0, 20));
 
-    const validDetections: any[] = [];
+    const validDetections: DetectionCandidate[] = [];
 
-    for (let i = 0; i < Math.min(numDetections, 8400); i++) {
+    for (let i = 0; i < numDetections; i++) {
       // Access data in column-major order: feature_index * numDetections + detection_index
       const centerX = predictionData[0 * numDetections + i]; // x_center
       const centerY = predictionData[1 * numDetections + i]; // y_center
       const width = predictionData[2 * numDetections + i]; // width
       const height = predictionData[3 * numDetections + i]; // height
 
-      // For single class YOLO, confidence is typically at index 4
-      const confidence = predictionData[4 * numDetections + i];
+      // YOLOv8 has no objectness score: confidence is the best class score
+      let classId = 0;
+      let confidence = predictionData[4 * numDetections + i];
+      for (let c = 1; c < numClasses; c++) {
+        const classScore = predictionData[(4 + c) * numDetections + i];
+        if (classScore > confidence) {
+          confidence = classScore;
+          classId = c;
+        }
+      }
 
       if (confidence > confidenceThreshold) {
-        // Log the raw normalized values for debugging
+        // Log the raw values for debugging
         console.log(`Raw detection ${i}:`, {
           centerX,
           centerY,
           width,
           height,
           confidence,
-          inputDims: { inputWidth, inputHeight },
+          classId,
+          letterbox,
         });
 
-        // YOLO outputs coordinates in pixels relative to 640x640 input
-        // First normalize to 0-1, then scale to video dimensions
-        const normalizedCenterX = centerX / 640;
-        const normalizedCenterY = centerY / 640;
-        const normalizedWidth = width / 640;
-        const normalizedHeight = height / 640;
+        // YOLO outputs coordinates in pixels of the letterboxed model input.
+        // Undo the padding and scale to get back to original frame pixels.
+        const [left, top] = inputToFramePoint(
+          centerX - width / 2,
+          centerY - height / 2,
+          letterbox
+        );
+        const [right, bottom] = inputToFramePoint(
+          centerX + width / 2,
+          centerY + height / 2,
+          letterbox
+        );
 
-        // Convert to video pixel coordinates
-        const pixelCenterX = normalizedCenterX * inputWidth;
-        const pixelCenterY = normalizedCenterY * inputHeight;
-        const pixelWidth = normalizedWidth * inputWidth;
-        const pixelHeight = normalizedHeight * inputHeight;
+        // Clamp the box to the frame bounds
+        const x = Math.max(0, Math.min(left, letterbox.sourceWidth));
+        const y = Math.max(0, Math.min(top, letterbox.sourceHeight));
+        const pixelWidth =
+          Math.max(0, Math.min(right, letterbox.sourceWidth)) - x;
+        const pixelHeight =
+          Math.max(0, Math.min(bottom, letterbox.sourceHeight)) - y;
 
-        // Convert center coordinates to top-left coordinates
-        const x = Math.max(0, pixelCenterX - pixelWidth / 2);
-        const y = Math.max(0, pixelCenterY - pixelHeight / 2);
+        if (pixelWidth <= 0 || pixelHeight <= 0) continue;
 
         console.log(`Converted detection ${i}:`, {
-          normalized: [
-            normalizedCenterX,
-            normalizedCenterY,
-            normalizedWidth,
-            normalizedHeight,
-          ],
-          pixels: [pixelCenterX, pixelCenterY, pixelWidth, pixelHeight],
           bbox: [x, y, pixelWidth, pixelHeight],
         });
 
@@ -135,7 +257,7 @@ export function processYoloOutput(
         let maskCoeffs: number[] = [];
         if (hasMaskCoeffs && numMaskCoeffs > 0) {
           for (let j = 0; j < numMaskCoeffs; j++) {
-            const coeffIndex = (5 + j) * numDetections + i;
+            const coeffIndex = (coeffOffset + j) * numDetections + i;
             if (coeffIndex < predictionData.length) {
               maskCoeffs.push(predictionData[coeffIndex]);
             }
@@ -153,9 +275,8 @@ export function processYoloOutput(
         validDetections.push({
           bbox: [x, y, pixelWidth, pixelHeight],
           score: confidence,
-          class: 0, // Nail class
-          confidence: confidence,
-          index: i,
+          class: classId,
+          className: descriptor.classNames[classId] ?? `class ${classId}`,
           maskCoeffs: maskCoeffs,
         });
       }
@@ -166,15 +287,42 @@ export function processYoloOutput(
     );
 
     // Apply Non-Maximum Suppression
-    const nmsDetections = applyNMS(validDetections, nmsThreshold);
-    console.log(`After NMS: ${nmsDetections.length} detections`);
+    let nmsCandidates = validDetections;
+    if (nmsStrategy === "mask" && maskPrototypes && hasMaskCoeffs) {
+      // Mask IoU needs masks, so decode them for the surviving candidates
+      nmsCandidates = nonMaxSuppression(validDetections, {
+        iouThreshold: MASK_NMS_PREFILTER_IOU,
+        classAware: classAwareNms,
+      }).slice(0, MASK_NMS_MAX_CANDIDATES);
+
+      // Frames without nails have nothing to decode
+      const masks =
+        nmsCandidates.length > 0
+          ? await decodeDetectionMasks(
+              nmsCandidates.map((d) => d.maskCoeffs),
+              nmsCandidates.map((d) => d.bbox),
+              maskPrototypes,
+              letterbox
+            )
+          : [];
+      nmsCandidates = nmsCandidates.map((d, i) => ({ ...d, mask: masks[i] }));
+    }
+
+    const nmsDetections = nonMaxSuppression(nmsCandidates, {
+      strategy: nmsStrategy,
+      iouThreshold: nmsThreshold,
+      classAware: classAwareNms,
+      softSigma: softNmsSigma,
+      scoreThreshold: confidenceThreshold,
+    });
+    console.log(`After ${nmsStrategy} NMS: ${nmsDetections.length} detections`);
 
     // Process masks if available
-    const processedDetections = processMasks(
+    const processedDetections = await processMasks(
       nmsDetections,
       maskPrototypes,
-      inputWidth,
-      inputHeight
+      letterbox,
+      polygonEpsilon
     );
 
     // Clean up transposed tensor if we created one
@@ -182,10 +330,14 @@ export function processYoloOutput(
       processedPredictions.dispose();
     }
 
+    const prototypeLayout = maskPrototypes
+      ? getPrototypeLayout(maskPrototypes, numMaskCoeffs)
+      : null;
+
     return {
       detections: processedDetections,
-      maskWidth: maskPrototypes ? maskPrototypes.shape[3] || 160 : 160,
-      maskHeight: maskPrototypes ? maskPrototypes.shape[2] || 160 : 160,
+      maskWidth: prototypeLayout?.width ?? 160,
+      maskHeight: prototypeLayout?.height ?? 160,
     };
   } catch (error) {
     console.error("Error processing YOLO output:", error);
@@ -194,576 +346,463 @@ export function processYoloOutput(
 }
 
 /**
- * Process segmentation masks from mask prototypes and coefficients
+ * Process segmentation masks from mask prototypes and coefficients.
+ * All detections are decoded together so a frame costs one GPU readback;
+ * masks already decoded for mask NMS are reused.
  */
-function processMasks(
-  detections: any[],
+async function processMasks(
+  detections: DetectionCandidate[],
   maskPrototypes: tf.Tensor | null,
-  inputWidth: number,
-  inputHeight: number
-): YoloDetection[] {
-  if (!maskPrototypes || detections.length === 0) {
-    // Return detections without masks
-    return detections.map((d) => ({
+  letterbox: LetterboxTransform,
+  polygonEpsilon: number
+): Promise<YoloDetection[]> {
+  const withoutMasks = () =>
+    detections.map((d) => ({
       bbox: d.bbox,
       score: d.score,
       class: d.class,
+      className: d.className,
     }));
+
+  const maskedDetections = detections.filter(
+    (d) => d.mask === undefined && d.maskCoeffs.length > 0
+  );
+
+  if (
+    !maskPrototypes ||
+    detections.every((d) => d.mask === undefined && d.maskCoeffs.length === 0)
+  ) {
+    // Return detections without masks
+    return withoutMasks();
   }
 
   try {
-    const processedDetections: YoloDetection[] = [];
-
-    for (const detection of detections) {
-      const { maskCoeffs } = detection;
-
-      if (maskCoeffs && maskCoeffs.length > 0) {
-        // Generate mask for this detection
-        const mask = generateMaskFromCoeffs(
-          maskCoeffs,
-          maskPrototypes,
-          detection.bbox,
-          inputWidth,
-          inputHeight
-        );
-
-        processedDetections.push({
-          bbox: detection.bbox,
-          score: detection.score,
-          class: detection.class,
-          mask: mask.mask,
-          maskPolygon: mask.polygon,
-        });
-      } else {
+    const masks =
+      maskedDetections.length > 0
+        ? await decodeDetectionMasks(
+            maskedDetections.map((d) => d.maskCoeffs),
+            maskedDetections.map((d) => d.bbox),
+            maskPrototypes,
+            letterbox
+          )
+        : [];
+
+    return detections.map((detection) => {
+      const maskIndex = maskedDetections.indexOf(detection);
+      const mask = maskIndex >= 0 ? masks[maskIndex] : detection.mask;
+
+      if (!mask) {
         // No mask available, just return the detection
-        processedDetections.push({
+        return {
           bbox: detection.bbox,
           score: detection.score,
           class: detection.class,
-        });
+          className: detection.className,
+        };
       }
-    }
 
-    return processedDetections;
+      const { polygon, holes } = extractPolygonFromMask(mask, polygonEpsilon);
+
+      return {
+        bbox: detection.bbox,
+        score: detection.score,
+        class: detection.class,
+        className: detection.className,
+        mask,
+        maskPolygon: polygon,
+        maskHoles: holes.length > 0 ? holes : undefined,
+      };
+    });
   } catch (error) {
     console.error("Error processing masks:", error);
     // Return detections without masks in case of error
-    return detections.map((d) => ({
-      bbox: d.bbox,
-      score: d.score,
-      class: d.class,
-    }));
+    return withoutMasks();
   }
 }
 
 /**
- * Generate a mask from mask coefficients and prototypes
+ * Work out the prototype tensor layout.
+ * TF.js exports of YOLOv8-seg emit NHWC prototypes ([1, 160, 160, 32]) while
+ * other exports use NCHW ([1, 32, 160, 160]); both are accepted.
  */
-function generateMaskFromCoeffs(
-  coeffs: number[],
-  prototypes: tf.Tensor | null,
-  bbox: number[],
-  inputWidth: number,
-  inputHeight: number
-): {
-  mask: number[][];
-  polygon: number[][];
-  imageData: ImageData | null;
-} {
-  try {
-    const [bboxX, bboxY, bboxWidth, bboxHeight] = bbox;
-
-    // If we have mask coefficients and prototypes, use them for precise mask generation
-    if (coeffs.length > 0 && prototypes) {
-      console.log("Using actual mask coefficients for precise segmentation");
-      return generateActualMask(
-        coeffs,
-        prototypes,
-        bbox,
-        inputWidth,
-        inputHeight
-      );
-    }
-
-    console.log("Falling back to shape-based mask generation");
-
-    // Fallback: Create a more realistic nail-shaped mask
-    const maskSize = 64; // Higher resolution for better detail
-    const mask2D: number[][] = [];
-
-    for (let y = 0; y < maskSize; y++) {
-      const row: number[] = [];
-      for (let x = 0; x < maskSize; x++) {
-        // Create a nail-shaped mask (rounded rectangle)
-        const normalizedX = x / maskSize;
-        const normalizedY = y / maskSize;
-
-        // Create rounded rectangle shape for nail
-        const padding = 0.1;
-        const cornerRadius = 0.3;
-
-        let maskValue = 0;
-
-        if (
-          normalizedX >= padding &&
-          normalizedX <= 1 - padding &&
-          normalizedY >= padding &&
-          normalizedY <= 1 - padding
-        ) {
-          // Calculate distance from edges for rounded corners
-          const distFromLeft = normalizedX - padding;
-          const distFromRight = 1 - padding - normalizedX;
-          const distFromTop = normalizedY - padding;
-          const distFromBottom = 1 - padding - normalizedY;
-
-          const width = 1 - 2 * padding;
-          const height = 1 - 2 * padding;
-
-          // Check if we're in a corner region
-          if (
-            (distFromLeft < cornerRadius && distFromTop < cornerRadius) ||
-            (distFromRight < cornerRadius && distFromTop < cornerRadius) ||
-            (distFromLeft < cornerRadius && distFromBottom < cornerRadius) ||
-            (distFromRight < cornerRadius && distFromBottom < cornerRadius)
-          ) {
-            // Calculate distance from nearest corner
-            let cornerX, cornerY;
-            if (distFromLeft < cornerRadius && distFromTop < cornerRadius) {
-              cornerX = padding + cornerRadius;
-              cornerY = padding + cornerRadius;
-            } else if (
-              distFromRight < cornerRadius &&
-              distFromTop < cornerRadius
-            ) {
-              cornerX = 1 - padding - cornerRadius;
-              cornerY = padding + cornerRadius;
-            } else if (
-              distFromLeft < cornerRadius &&
-              distFromBottom < cornerRadius
-            ) {
-              cornerX = padding + cornerRadius;
-              cornerY = 1 - padding - cornerRadius;
-            } else {
-              cornerX = 1 - padding - cornerRadius;
-              cornerY = 1 - padding - cornerRadius;
-            }
-
-            const distFromCorner = Math.sqrt(
-              Math.pow(normalizedX - cornerX, 2) +
-                Math.pow(normalizedY - cornerY, 2)
-            );
-
-            if (distFromCorner <= cornerRadius) {
-              maskValue = Math.max(
-                0,
-                1 - (distFromCorner / cornerRadius) * 0.3
-              );
-            }
-          } else {
-            // We're in the main body of the nail
-            maskValue = 1;
-          }
-        }
+function getPrototypeLayout(
+  prototypes: tf.Tensor,
+  numCoeffs: number
+): { channelsLast: boolean; height: number; width: number } {
+  const [, d1, d2, d3] = prototypes.shape;
+  const channelsLast = d3 === numCoeffs && d1 !== numCoeffs;
+  return channelsLast
+    ? { channelsLast, height: d1, width: d2 }
+    : { channelsLast, height: d2, width: d3 };
+}
 
-        row.push(maskValue);
-      }
-      mask2D.push(row);
-    }
+/**
+ * Reshape mask prototypes into a [channels, height * width] matrix
+ */
+function getPrototypeMatrix(
+  prototypes: tf.Tensor,
+  numCoeffs: number
+): { matrix: tf.Tensor2D; height: number; width: number } {
+  const { channelsLast, height, width } = getPrototypeLayout(
+    prototypes,
+    numCoeffs
+  );
 
-    // Generate polygon from mask contours
-    const polygon = extractPolygonFromMask(
-      mask2D,
-      bbox,
-      inputWidth,
-      inputHeight
-    );
+  const matrix = tf.tidy(() =>
+    channelsLast
+      ? (prototypes
+          .reshape([height * width, numCoeffs])
+          .transpose() as tf.Tensor2D)
+      : (prototypes.reshape([numCoeffs, height * width]) as tf.Tensor2D)
+  );
 
-    return {
-      mask: mask2D,
-      polygon: polygon,
-      imageData: null, // Don't pre-generate ImageData with fixed colors
-    };
-  } catch (error) {
-    console.error("Error generating mask from coefficients:", error);
-    return {
-      mask: [],
-      polygon: [],
-      imageData: null,
-    };
-  }
+  return { matrix, height, width };
 }
 
 /**
- * Generate actual mask using model coefficients and prototypes
+ * Get the integer frame-pixel region covered by a detection box
  */
-function generateActualMask(
-  coeffs: number[],
-  prototypes: tf.Tensor,
+function getMaskRegion(
   bbox: number[],
-  inputWidth: number,
-  inputHeight: number
-): {
-  mask: number[][];
-  polygon: number[][];
-  imageData: ImageData | null;
-} {
-  try {
-    if (!prototypes || coeffs.length === 0) {
-      throw new Error("No prototypes or coefficients available");
-    }
-
-    const [bboxX, bboxY, bboxWidth, bboxHeight] = bbox;
+  letterbox: LetterboxTransform
+): { x: number; y: number; width: number; height: number } {
+  const [bboxX, bboxY, bboxWidth, bboxHeight] = bbox;
+  const x = Math.max(0, Math.floor(bboxX));
+  const y = Math.max(0, Math.floor(bboxY));
+  const right = Math.min(letterbox.sourceWidth, Math.ceil(bboxX + bboxWidth));
+  const bottom = Math.min(
+    letterbox.sourceHeight,
+    Math.ceil(bboxY + bboxHeight)
+  );
+  return { x, y, width: right - x, height: bottom - y };
+}
 
-    // Get mask dimensions from prototypes shape
-    const maskHeight = prototypes.shape[2] || 160;
-    const maskWidth = prototypes.shape[3] || 160;
-    const numPrototypes = prototypes.shape[1] || coeffs.length;
+/**
+ * Normalized `[y1, x1, y2, x2]` crop box, in prototype coordinates, whose
+ * samples land on the centres of the frame pixels in `region`.
+ */
+function getPrototypeCropBox(
+  region: { x: number; y: number; width: number; height: number },
+  letterbox: LetterboxTransform,
+  protoWidth: number,
+  protoHeight: number
+): [number, number, number, number] {
+  // Frame pixel centre -> model input pixel -> prototype pixel index
+  const toProtoX = (frameX: number) =>
+    ((frameX + 0.5) * letterbox.scale + letterbox.padX) *
+      (protoWidth / letterbox.inputSize) -
+    0.5;
+  const toProtoY = (frameY: number) =>
+    ((frameY + 0.5) * letterbox.scale + letterbox.padY) *
+      (protoHeight / letterbox.inputSize) -
+    0.5;
+
+  return [
+    toProtoY(region.y) / (protoHeight - 1),
+    toProtoX(region.x) / (protoWidth - 1),
+    toProtoY(region.y + region.height - 1) / (protoHeight - 1),
+    toProtoX(region.x + region.width - 1) / (protoWidth - 1),
+  ];
+}
 
-    console.log(
-      `Generating mask: prototypes shape: ${prototypes.shape}, coeffs length: ${coeffs.length}`
+/**
+ * Decode YOLOv8-seg instance masks for a batch of detections.
+ * The stacked coefficients are multiplied against the prototypes in a single
+ * matMul; each mask is then cropped to its box in prototype coordinates,
+ * upsampled bilinearly to frame pixels and thresholded, all on the GPU.
+ * The result is read back with one async `data()` call.
+ */
+async function decodeDetectionMasks(
+  coeffs: number[][],
+  bboxes: number[][],
+  prototypes: tf.Tensor,
+  letterbox: LetterboxTransform,
+  threshold: number = 0.5
+): Promise<(DetectionMask | null)[]> {
+  if (coeffs.length === 0) return [];
+
+  const regions = bboxes.map((bbox) => getMaskRegion(bbox, letterbox));
+
+  // Every crop shares one output size, so sample each box over the largest
+  // region; the extra samples past a box's own edge are discarded below.
+  const cropWidth = Math.max(1, ...regions.map((r) => r.width));
+  const cropHeight = Math.max(1, ...regions.map((r) => r.height));
+  const numCoeffs = coeffs[0].length;
+
+  const maskTensor = tf.tidy(() => {
+    const { matrix, height, width } = getPrototypeMatrix(prototypes, numCoeffs);
+
+    // coeffs [N, C] x prototypes [C, H*W] -> mask logits [N, H, W]
+    const logits = tf
+      .matMul(tf.tensor2d(coeffs, [coeffs.length, numCoeffs]), matrix)
+      .reshape([coeffs.length, height, width, 1]) as tf.Tensor4D;
+
+    const boxes = regions.map((region) =>
+      getPrototypeCropBox(
+        { ...region, width: cropWidth, height: cropHeight },
+        letterbox,
+        width,
+        height
+      )
+    );
+    const cropped = tf.image.cropAndResize(
+      logits,
+      boxes,
+      regions.map((_, i) => i),
+      [cropHeight, cropWidth],
+      "bilinear"
     );
 
-    // Create coefficients tensor - limit to the number of available prototypes
-    const coeffsTensor = tf.tensor1d(coeffs.slice(0, numPrototypes));
-
-    // Remove batch dimension and get the prototypes tensor in correct shape
-    // Shape should be [channels, height, width] e.g., [32, 160, 160]
-    const prototypesReshaped = prototypes.squeeze([0]); // Remove batch dimension
-
-    // Perform matrix multiplication: coeffs × prototypes
-    // Using einsum with correct indices: c (channels) × chw (channels, height, width) -> hw (height, width)
-    const maskTensor = tf.einsum("c,chw->hw", coeffsTensor, prototypesReshaped);
-
-    // Apply sigmoid activation to get mask probabilities
-    const sigmoidMask = tf.sigmoid(maskTensor);
-
-    // Get the mask data
-    const maskData = sigmoidMask.dataSync();
+    // sigmoid(x) > threshold  <=>  x > logit(threshold)
+    return cropped.greater(Math.log(threshold / (1 - threshold)));
+  });
 
-    // Convert to 2D array
-    const mask2D: number[][] = [];
-    for (let y = 0; y < maskHeight; y++) {
-      const row: number[] = [];
-      for (let x = 0; x < maskWidth; x++) {
-        row.push(maskData[y * maskWidth + x]);
+  try {
+    const data = (await maskTensor.data()) as Uint8Array;
+    const cropSize = cropWidth * cropHeight;
+
+    return regions.map((region, i) => {
+      if (region.width <= 0 || region.height <= 0) return null;
+
+      // Copy this detection's region out of its padded crop
+      const maskData = new Uint8Array(region.width * region.height);
+      for (let y = 0; y < region.height; y++) {
+        const rowStart = i * cropSize + y * cropWidth;
+        maskData.set(
+          data.subarray(rowStart, rowStart + region.width),
+          y * region.width
+        );
       }
-      mask2D.push(row);
-    }
-
-    // Generate polygon from the precise mask
-    const polygon = extractPolygonFromMask(
-      mask2D,
-      bbox,
-      inputWidth,
-      inputHeight,
-      0.5 // Higher threshold for more precise boundaries
-    );
 
-    console.log(`Generated mask with ${polygon.length} polygon points`);
-
-    // Clean up tensors
-    coeffsTensor.dispose();
-    prototypesReshaped.dispose();
+      return { data: maskData, ...region };
+    });
+  } finally {
     maskTensor.dispose();
-    sigmoidMask.dispose();
-
-    return {
-      mask: mask2D,
-      polygon: polygon,
-      imageData: null,
-    };
-  } catch (error) {
-    console.error("Error generating actual mask:", error);
-    // Fallback to the improved shape-based approach
-    return generateMaskFromCoeffs(
-      [],
-      null as any,
-      bbox,
-      inputWidth,
-      inputHeight
-    );
   }
 }
 
 /**
- * Extract polygon points from mask using contour detection
+ * Extract the nail outline from a frame-aligned mask.
+ * Contours are traced in order, the largest component is kept (with its
+ * holes) and each ring is simplified with Douglas–Peucker.
  */
 function extractPolygonFromMask(
-  mask: number[][],
-  bbox: number[],
-  inputWidth: number,
-  inputHeight: number,
-  threshold: number = 0.5
-): number[][] {
-  const [bboxX, bboxY, bboxWidth, bboxHeight] = bbox;
-  const maskHeight = mask.length;
-  const maskWidth = mask[0]?.length || 0;
-
-  if (maskHeight === 0 || maskWidth === 0) return [];
-
-  // Find all edge points using Marching Squares-like algorithm
-  const edgePoints: number[][] = [];
-
-  for (let y = 0; y < maskHeight - 1; y++) {
-    for (let x = 0; x < maskWidth - 1; x++) {
-      // Get the 2x2 cell values
-      const topLeft = mask[y][x] > threshold ? 1 : 0;
-      const topRight = mask[y][x + 1] > threshold ? 1 : 0;
-      const bottomLeft = mask[y + 1][x] > threshold ? 1 : 0;
-      const bottomRight = mask[y + 1][x + 1] > threshold ? 1 : 0;
-
-      // Create a configuration index (0-15)
-      const config =
-        (topLeft << 3) | (topRight << 2) | (bottomRight << 1) | bottomLeft;
-
-      // Add edge points based on configuration
-      const cellPoints = getMarchingSquarePoints(
-        x,
-        y,
-        config,
-        maskWidth,
-        maskHeight
-      );
-      edgePoints.push(...cellPoints);
-    }
+  mask: DetectionMask,
+  epsilon: number
+): { polygon: number[][]; holes: number[][][] } {
+  if (mask.width === 0 || mask.height === 0) {
+    return { polygon: [], holes: [] };
   }
 
-  if (edgePoints.length === 0) {
-    // Fallback: find outer boundary points
-    for (let y = 0; y < maskHeight; y++) {
-      for (let x = 0; x < maskWidth; x++) {
-        if (mask[y][x] > threshold) {
-          // Check if this is a boundary pixel
-          const isBoundary =
-            x === 0 ||
-            x === maskWidth - 1 ||
-            y === 0 ||
-            y === maskHeight - 1 ||
-            (mask[y - 1]?.[x] || 0) <= threshold ||
-            (mask[y + 1]?.[x] || 0) <= threshold ||
-            (mask[y][x - 1] || 0) <= threshold ||
-            (mask[y][x + 1] || 0) <= threshold;
-
-          if (isBoundary) {
-            edgePoints.push([x, y]);
-          }
-        }
-      }
-    }
-  }
+  const contours = traceContours(mask.data, mask.width, mask.height);
 
-  // Convert mask coordinates to image coordinates
-  const imagePoints = edgePoints.map(([x, y]) => {
-    const imageX = bboxX + (x / maskWidth) * bboxWidth;
-    const imageY = bboxY + (y / maskHeight) * bboxHeight;
-    return [imageX, imageY];
+  // Pick the largest outer boundary; smaller components are mask noise
+  let outerIndex = -1;
+  contours.forEach((contour, index) => {
+    if (
+      !contour.isHole &&
+      (outerIndex < 0 || contour.area > contours[outerIndex].area)
+    ) {
+      outerIndex = index;
+    }
   });
 
-  // Sort and simplify the polygon
-  if (imagePoints.length > 0) {
-    const sortedPoints = sortPointsForPolygon(imagePoints);
-    return simplifyPolygon(sortedPoints, 2.0); // Tighter tolerance for more precision
-  }
-
-  return [];
-}
-
-/**
- * Get edge points for marching squares algorithm
- */
-function getMarchingSquarePoints(
-  x: number,
-  y: number,
-  config: number,
-  maskWidth: number,
-  maskHeight: number
-): number[][] {
-  const points: number[][] = [];
-
-  // Marching squares lookup table for edge intersections
-  // Each configuration defines which edges have intersections
-  const edgeTable: number[][][] = [
-    [], // 0: no intersections
-    [[0, 3]], // 1: bottom-left
-    [[1, 2]], // 2: bottom-right
-    [[0, 2]], // 3: bottom edge
-    [[2, 1]], // 4: top-right
-    [
-      [0, 3],
-      [2, 1],
-    ], // 5: diagonal
-    [[3, 1]], // 6: right edge
-    [[0, 1]], // 7: bottom-right corner
-    [[3, 0]], // 8: top-left
-    [[1, 3]], // 9: left edge
-    [
-      [3, 0],
-      [1, 2],
-    ], // 10: diagonal
-    [[1, 2]], // 11: top-left corner
-    [[2, 0]], // 12: top edge
-    [[1, 0]], // 13: top-right corner
-    [[3, 2]], // 14: top-left corner
-    [], // 15: no intersections
-  ];
+  if (outerIndex < 0) return { polygon: [], holes: [] };
 
-  const edges = edgeTable[config] || [];
-
-  for (const edge of edges) {
-    if (edge.length >= 2) {
-      const [start, end] = edge;
-      // Calculate intersection points on cell edges
-      // 0=top, 1=right, 2=bottom, 3=left
-      const intersections = [
-        [x + 0.5, y], // top edge
-        [x + 1, y + 0.5], // right edge
-        [x + 0.5, y + 1], // bottom edge
-        [x, y + 0.5], // left edge
-      ];
-
-      if (start < intersections.length && end < intersections.length) {
-        points.push(intersections[start], intersections[end]);
-      }
-    }
-  }
+  // Mask pixel (x, y) covers the frame pixel at (mask.x + x, mask.y + y);
+  // use pixel centres as image coordinates
+  const toFrame = (points: number[][]) =>
+    simplifyClosedPolygon(points, epsilon).map(([x, y]) => [
+      mask.x + x + 0.5,
+      mask.y + y + 0.5,
+    ]);
 
-  return points;
-}
+  const holes = contours
+    .filter((contour) => contour.isHole && contour.parent === outerIndex)
+    .filter((contour) => contour.points.length >= 3)
+    .map((contour) => toFrame(contour.points));
 
-/**
- * Sort points to create a proper polygon outline
- */
-function sortPointsForPolygon(points: number[][]): number[][] {
-  if (points.length <= 2) return points;
-
-  // Find the centroid
-  const centroidX = points.reduce((sum, p) => sum + p[0], 0) / points.length;
-  const centroidY = points.reduce((sum, p) => sum + p[1], 0) / points.length;
-
-  // Sort points by angle from centroid
-  return points.sort((a, b) => {
-    const angleA = Math.atan2(a[1] - centroidY, a[0] - centroidX);
-    const angleB = Math.atan2(b[1] - centroidY, b[0] - centroidX);
-    return angleA - angleB;
-  });
+  return { polygon: toFrame(contours[outerIndex].points), holes };
 }
 
 /**
- * Simplify polygon by removing points that are too close
+ * Preprocess image for YOLO model.
+ * The frame is letterboxed (resized with its aspect ratio kept, then padded)
+ * into the square model input so nails are not distorted on non-square cameras.
  */
-function simplifyPolygon(points: number[][], tolerance: number): number[][] {
-  if (points.length <= 3) return points;
+export function preprocessImageForYolo(
+  source: HTMLVideoElement | ImageBitmap,
+  inputSize: number = DEFAULT_MODEL_DESCRIPTOR.inputSize
+): PreprocessedFrame {
+  // Video elements report their frame size separately from their layout size.
+  // Checked structurally because HTMLVideoElement does not exist in workers.
+  const [sourceWidth, sourceHeight] =
+    "videoWidth" in source
+      ? [source.videoWidth, source.videoHeight]
+      : [source.width, source.height];
+  const letterbox = computeLetterbox(sourceWidth, sourceHeight, inputSize);
+
+  const tensor = tf.tidy(() => {
+    // Convert the frame to a tensor
+    const pixels = tf.browser.fromPixels(source);
+
+    // Resize keeping the aspect ratio
+    const resizedWidth = Math.round(letterbox.sourceWidth * letterbox.scale);
+    const resizedHeight = Math.round(letterbox.sourceHeight * letterbox.scale);
+    const resized = tf.image.resizeBilinear(pixels, [
+      resizedHeight,
+      resizedWidth,
+    ]);
 
-  const simplified: number[][] = [points[0]];
-
-  for (let i = 1; i < points.length; i++) {
-    const lastPoint = simplified[simplified.length - 1];
-    const currentPoint = points[i];
+    // Normalize to [0, 1]
+    const normalized = resized.div(255.0);
 
-    const distance = Math.sqrt(
-      Math.pow(currentPoint[0] - lastPoint[0], 2) +
-        Math.pow(currentPoint[1] - lastPoint[1], 2)
+    // Pad to the square input size with the letterbox gray
+    const padded = normalized.pad(
+      [
+        [letterbox.padY, inputSize - resizedHeight - letterbox.padY],
+        [letterbox.padX, inputSize - resizedWidth - letterbox.padX],
+        [0, 0],
+      ],
+      LETTERBOX_PAD_VALUE
     );
 
-    if (distance > tolerance) {
-      simplified.push(currentPoint);
-    }
-  }
-
-  // Ensure the polygon is closed and has enough points for a good shape
-  if (simplified.length > 2) {
-    const firstPoint = simplified[0];
-    const lastPoint = simplified[simplified.length - 1];
-    const closingDistance = Math.sqrt(
-      Math.pow(lastPoint[0] - firstPoint[0], 2) +
-        Math.pow(lastPoint[1] - firstPoint[1], 2)
-    );
+    // Add batch dimension [1, inputSize, inputSize, 3]
+    const batched = padded.expandDims(0);
 
-    // Only add closing point if it's not too close to the first point
-    if (closingDistance > tolerance) {
-      simplified.push(firstPoint);
-    }
-  }
+    return batched;
+  });
 
-  return simplified.length >= 3 ? simplified : points;
+  return { tensor, letterbox };
 }
 
 /**
- * Simple Non-Maximum Suppression implementation
+ * Transform that maps a square frame region onto the full model input.
+ * It is a letterbox with a negative pad, so `inputToFramePoint` and mask
+ * decoding map crop detections straight back to frame coordinates.
  */
-function applyNMS(detections: any[], iouThreshold: number): any[] {
-  if (detections.length === 0) return [];
-
-  // Sort by confidence (descending)
-  detections.sort((a, b) => b.confidence - a.confidence);
-
-  const keep: any[] = [];
-  const suppress = new Set<number>();
-
-  for (let i = 0; i < detections.length; i++) {
-    if (suppress.has(i)) continue;
-
-    keep.push(detections[i]);
-
-    for (let j = i + 1; j < detections.length; j++) {
-      if (suppress.has(j)) continue;
-
-      const iou = calculateIoU(detections[i].bbox, detections[j].bbox);
-      if (iou > iouThreshold) {
-        suppress.add(j);
-      }
-    }
-  }
-
-  return keep;
+export function computeRoiTransform(
+  roi: number[], // [x, y, size] square region in frame pixels
+  sourceWidth: number,
+  sourceHeight: number,
+  inputSize: number = DEFAULT_MODEL_DESCRIPTOR.inputSize
+): LetterboxTransform {
+  const [roiX, roiY, roiSize] = roi;
+  const scale = inputSize / roiSize;
+  return {
+    scale,
+    padX: -roiX * scale,
+    padY: -roiY * scale,
+    inputSize,
+    sourceWidth,
+    sourceHeight,
+  };
 }
 
 /**
- * Calculate Intersection over Union (IoU) for two bounding boxes
+ * Preprocess a square region of interest (e.g. around a hand) for YOLO.
+ * Parts of the region outside the frame are filled with the letterbox gray.
  */
-function calculateIoU(box1: number[], box2: number[]): number {
-  const [x1, y1, w1, h1] = box1;
-  const [x2, y2, w2, h2] = box2;
-
-  const x1_max = x1 + w1;
-  const y1_max = y1 + h1;
-  const x2_max = x2 + w2;
-  const y2_max = y2 + h2;
-
-  const intersectionX1 = Math.max(x1, x2);
-  const intersectionY1 = Math.max(y1, y2);
-  const intersectionX2 = Math.min(x1_max, x2_max);
-  const intersectionY2 = Math.min(y1_max, y2_max);
-
-  const intersectionWidth = Math.max(0, intersectionX2 - intersectionX1);
-  const intersectionHeight = Math.max(0, intersectionY2 - intersectionY1);
-  const intersectionArea = intersectionWidth * intersectionHeight;
+export function preprocessRoiForYolo(
+  source: HTMLVideoElement | ImageBitmap,
+  roi: number[], // [x, y, size] square region in frame pixels
+  inputSize: number = DEFAULT_MODEL_DESCRIPTOR.inputSize
+): PreprocessedFrame {
+  const [sourceWidth, sourceHeight] =
+    "videoWidth" in source
+      ? [source.videoWidth, source.videoHeight]
+      : [source.width, source.height];
+  const letterbox = computeRoiTransform(
+    roi,
+    sourceWidth,
+    sourceHeight,
+    inputSize
+  );
 
-  const box1Area = w1 * h1;
-  const box2Area = w2 * h2;
-  const unionArea = box1Area + box2Area - intersectionArea;
+  const tensor = tf.tidy(() => {
+    const pixels = tf.browser.fromPixels(source).toFloat().div(255.0);
+
+    // cropAndResize samples output pixel i at y1 * (H - 1) + i * step, so
+    // the box is chosen to sample frame pixel roiY + i * roiSize / inputSize,
+    // matching the inverse mapping of the transform above
+    const [roiX, roiY, roiSize] = roi;
+    const stepFraction = (roiSize * (inputSize - 1)) / inputSize;
+    const y1 = roiY / (sourceHeight - 1);
+    const x1 = roiX / (sourceWidth - 1);
+    const box = [
+      y1,
+      x1,
+      y1 + stepFraction / (sourceHeight - 1),
+      x1 + stepFraction / (sourceWidth - 1),
+    ];
+
+    return tf.image.cropAndResize(
+      pixels.expandDims(0) as tf.Tensor4D,
+      [box],
+      [0],
+      [inputSize, inputSize],
+      "bilinear",
+      LETTERBOX_PAD_VALUE
+    );
+  });
 
-  return unionArea > 0 ? intersectionArea / unionArea : 0;
+  return { tensor, letterbox };
 }
 
 /**
- * Preprocess image for YOLO model
+ * Merge detections from overlapping crops of the same frame.
+ * Detections are frame-aligned, so duplicates are removed with mask NMS
+ * (box NMS for detections without masks).
  */
-export function preprocessImageForYolo(video: HTMLVideoElement): tf.Tensor {
-  return tf.tidy(() => {
-    // Convert video to tensor
-    const tensor = tf.browser.fromPixels(video);
-
-    // Resize to 640x640 (YOLO input size)
-    const resized = tf.image.resizeBilinear(tensor, [640, 640]);
-
-    // Normalize to [0, 1]
-    const normalized = resized.div(255.0);
+export function mergeRoiDetections(
+  detections: YoloDetection[],
+  options: YoloProcessOptions = {}
+): YoloDetection[] {
+  const { nmsThreshold = 0.45, classAwareNms = true } = options;
+  return nonMaxSuppression(detections, {
+    strategy: "mask",
+    iouThreshold: nmsThreshold,
+    classAware: classAwareNms,
+  });
+}
 
-    // Add batch dimension [1, 640, 640, 3]
-    const batched = normalized.expandDims(0);
+/**
+ * Flip detections horizontally into a mirrored view of the frame.
+ * Boxes, outlines and mask pixels all move; polygon winding is kept as is.
+ */
+export function mirrorDetections(
+  detections: YoloDetection[],
+  frameWidth: number
+): YoloDetection[] {
+  const mirrorPoint = (point: number[]) => [frameWidth - point[0], point[1]];
+
+  return detections.map((detection) => {
+    const [x, y, width, height] = detection.bbox;
+
+    let mask: DetectionMask | undefined;
+    if (detection.mask) {
+      const { data, width: maskWidth, height: maskHeight } = detection.mask;
+      const flipped = new Uint8Array(data.length);
+      for (let row = 0; row < maskHeight; row++) {
+        const offset = row * maskWidth;
+        for (let col = 0; col < maskWidth; col++) {
+          flipped[offset + col] = data[offset + maskWidth - 1 - col];
+        }
+      }
+      mask = {
+        ...detection.mask,
+        data: flipped,
+        x: frameWidth - detection.mask.x - maskWidth,
+      };
+    }
 
-    return batched;
+    return {
+      ...detection,
+      bbox: [frameWidth - x - width, y, width, height],
+      mask,
+      maskPolygon: detection.maskPolygon?.map(mirrorPoint),
+      maskHoles: detection.maskHoles?.map((hole) => hole.map(mirrorPoint)),
+    };
   });
 }
 
@@ -786,7 +825,7 @@ export function applyNailColorFilter(
     if (detection.maskPolygon && detection.maskPolygon.length > 3) {
       // Use precise polygon outline with smooth curves
       applyPrecisePolygonColor(ctx, detection, color);
-    } else if (detection.mask && detection.mask.length > 0) {
+    } else if (detection.mask && detection.mask.data.length > 0) {
       // Use the mask data if polygon is not available
       applyMaskBasedColor(ctx, detection, color);
     } else {
@@ -845,7 +884,17 @@ function applyPrecisePolygonColor(
   }
 
   ctx.closePath();
-  ctx.fill();
+
+  // Cut out any holes in the nail outline
+  detection.maskHoles?.forEach((hole) => {
+    ctx.moveTo(hole[0][0], hole[0][1]);
+    for (let i = 1; i < hole.length; i++) {
+      ctx.lineTo(hole[i][0], hole[i][1]);
+    }
+    ctx.closePath();
+  });
+
+  ctx.fill("evenodd");
 
   // Add subtle gradient highlight for realism
   const gradient = ctx.createRadialGradient(
@@ -862,7 +911,7 @@ function applyPrecisePolygonColor(
   gradient.addColorStop(1, `rgba(0, 0, 0, ${color.a * 0.05})`);
 
   ctx.fillStyle = gradient;
-  ctx.fill();
+  ctx.fill("evenodd");
 
   // Add a subtle shadow/depth effect
   ctx.strokeStyle = `rgba(0, 0, 0, ${color.a * 0.15})`;
@@ -880,10 +929,8 @@ function applyMaskBasedColor(
 ): void {
   const [bboxX, bboxY, bboxWidth, bboxHeight] = detection.bbox;
   const mask = detection.mask!;
-  const maskHeight = mask.length;
-  const maskWidth = mask[0]?.length || 0;
 
-  if (maskHeight === 0 || maskWidth === 0) return;
+  if (mask.width === 0 || mask.height === 0) return;
 
   // Use polygon approach to avoid gray background from ImageData
   if (detection.maskPolygon && detection.maskPolygon.length > 2) {
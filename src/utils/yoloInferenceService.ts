@@ -0,0 +1,258 @@
+/**
+ * Worker-hosted YOLO Inference Service
+ *
+ * All TensorFlow.js work (preprocessing, model execution and YOLO
+ * postprocessing) runs inside `src/workers/yoloInference.worker.ts` so the
+ * main thread and its draw loop never block on the GPU. This module is the
+ * main-thread client:
+ * 1. Spawns the worker and loads the model and its descriptor inside it.
+ * 2. Remembers the benchmarked TF.js backend and any manual override.
+ *    The model itself is cached in IndexedDB by the worker; download
+ *    progress is forwarded to the caller.
+ * 3. Sends `ImageBitmap` frames (transferred, not copied).
+ * 4. Resolves each request with `YoloDetection[]` whose mask buffers were
+ *    transferred back from the worker.
+ */
+
+import type { YoloDetection, YoloProcessOptions } from "./yolo";
+import type { ModelDescriptor } from "./modelDescriptor";
+import type { BackendBenchmark, TfBackendName } from "./backendManager";
+
+export type BackendPreference = TfBackendName | "auto";
+
+export interface ModelLoadResult {
+  descriptor: ModelDescriptor;
+  backend: TfBackendName; // Backend the model is running on
+  benchmarks: BackendBenchmark[]; // Empty when a known backend was reused
+  fromCache: boolean; // Weights came from IndexedDB instead of the network
+}
+
+export interface InferenceResult {
+  detections: YoloDetection[];
+  frameWidth: number;
+  frameHeight: number;
+  inferenceTime: number; // Milliseconds spent in the worker
+  numTensors: number; // Live tensors in the worker after the request
+  roiCount: number; // Hand crops inferred, 0 for full-frame inference
+}
+
+export type InferenceWorkerRequest =
+  | { type: "load"; modelUrl: string; backend: TfBackendName | null }
+  | {
+      type: "detect";
+      requestId: number;
+      frame: ImageBitmap;
+      options: YoloProcessOptions;
+      rois: number[][]; // [x, y, size] crops; empty for the full frame
+    }
+  | { type: "clearCache" }
+  | { type: "dispose" };
+
+export type InferenceWorkerResponse =
+  | { type: "loadProgress"; fraction: number }
+  | ({ type: "loaded" } & ModelLoadResult)
+  | { type: "loadError"; message: string }
+  | ({ type: "detections"; requestId: number } & InferenceResult)
+  | { type: "detectError"; requestId: number; message: string }
+  | { type: "cacheCleared"; removed: number; error?: string };
+
+const BACKEND_PREFERENCE_KEY = "nails-ai:tf-backend-preference";
+const BACKEND_CHOICE_KEY = "nails-ai:tf-backend-benchmarked";
+
+function readStorage(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage(key: string, value: string | null): void {
+  try {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+  } catch (error) {
+    console.warn("Could not persist backend choice:", error);
+  }
+}
+
+/**
+ * Backend chosen by the user, "auto" to use the benchmark result
+ */
+export function getBackendPreference(): BackendPreference {
+  return (readStorage(BACKEND_PREFERENCE_KEY) as BackendPreference) ?? "auto";
+}
+
+/**
+ * Store a manual backend override. Going back to "auto" forgets the previous
+ * benchmark so the next load measures again.
+ */
+export function setBackendPreference(preference: BackendPreference): void {
+  writeStorage(
+    BACKEND_PREFERENCE_KEY,
+    preference === "auto" ? null : preference
+  );
+  if (preference === "auto") {
+    writeStorage(BACKEND_CHOICE_KEY, null);
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: InferenceResult) => void;
+  reject: (error: Error) => void;
+}
+
+export class YoloInferenceService {
+  private worker: Worker;
+  private nextRequestId = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  private loadPromise: Promise<ModelLoadResult> | null = null;
+  private loadCallbacks: {
+    resolve: (result: ModelLoadResult) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private loadProgressCallback: ((fraction: number) => void) | null = null;
+  private cacheClearCallbacks: {
+    resolve: (removed: number) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+
+  constructor() {
+    this.worker = new Worker(
+      new URL("../workers/yoloInference.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    this.worker.onmessage = (event: MessageEvent<InferenceWorkerResponse>) =>
+      this.handleMessage(event.data);
+    this.worker.onerror = (event) => {
+      console.error("YOLO inference worker error:", event.message);
+      this.failAll(new Error(event.message || "Inference worker crashed"));
+    };
+  }
+
+  /**
+   * Load and warm up the model inside the worker.
+   * Uses the overridden or previously benchmarked backend when there is one,
+   * otherwise the worker benchmarks all backends and the winner is remembered.
+   * `onProgress` receives the download fraction (0-1) of the model shards.
+   */
+  public load(
+    modelUrl: string = "/model_web/model.json",
+    onProgress?: (fraction: number) => void
+  ): Promise<ModelLoadResult> {
+    if (!this.loadPromise) {
+      this.loadProgressCallback = onProgress ?? null;
+      this.loadPromise = new Promise<ModelLoadResult>((resolve, reject) => {
+        this.loadCallbacks = { resolve, reject };
+      });
+
+      const preference = getBackendPreference();
+      const backend =
+        preference !== "auto"
+          ? preference
+          : (readStorage(BACKEND_CHOICE_KEY) as TfBackendName | null);
+      this.post({ type: "load", modelUrl, backend });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Run detection on a frame. Ownership of the bitmap moves to the worker,
+   * which closes it once it has been uploaded.
+   * With `rois` ([x, y, size] squares, e.g. around hands) each crop is
+   * inferred at full model resolution and the results are merged.
+   */
+  public detect(
+    frame: ImageBitmap,
+    options: YoloProcessOptions = {},
+    rois: number[][] = []
+  ): Promise<InferenceResult> {
+    const requestId = this.nextRequestId++;
+    return new Promise<InferenceResult>((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      this.post({ type: "detect", requestId, frame, options, rois }, [frame]);
+    });
+  }
+
+  /**
+   * Delete every cached model version from IndexedDB.
+   * The next load downloads the model again.
+   */
+  public clearCache(): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      this.cacheClearCallbacks.push({ resolve, reject });
+      this.post({ type: "clearCache" });
+    });
+  }
+
+  public dispose(): void {
+    this.post({ type: "dispose" });
+    this.worker.terminate();
+    this.failAll(new Error("Inference service disposed"));
+  }
+
+  private post(message: InferenceWorkerRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(message, transfer);
+  }
+
+  private handleMessage(message: InferenceWorkerResponse): void {
+    switch (message.type) {
+      case "loadProgress":
+        this.loadProgressCallback?.(message.fraction);
+        break;
+      case "loaded": {
+        const { type, ...result } = message;
+        void type;
+        console.log(
+          `Inference worker loaded model on ${result.backend}, descriptor:`,
+          result.descriptor
+        );
+        if (result.benchmarks.length > 0) {
+          writeStorage(BACKEND_CHOICE_KEY, result.backend);
+        }
+        this.loadCallbacks?.resolve(result);
+        this.loadCallbacks = null;
+        this.loadProgressCallback = null;
+        break;
+      }
+      case "loadError":
+        this.loadCallbacks?.reject(new Error(message.message));
+        this.loadCallbacks = null;
+        this.loadProgressCallback = null;
+        this.loadPromise = null; // Allow a retry
+        break;
+      case "detections": {
+        const { type, requestId, ...result } = message;
+        void type;
+        this.pending.get(requestId)?.resolve(result);
+        this.pending.delete(requestId);
+        break;
+      }
+      case "detectError":
+        this.pending.get(message.requestId)?.reject(new Error(message.message));
+        this.pending.delete(message.requestId);
+        break;
+      case "cacheCleared": {
+        const callbacks = this.cacheClearCallbacks.shift();
+        if (message.error) {
+          callbacks?.reject(new Error(message.error));
+        } else {
+          callbacks?.resolve(message.removed);
+        }
+        break;
+      }
+    }
+  }
+
+  private failAll(error: Error): void {
+    this.loadCallbacks?.reject(error);
+    this.loadCallbacks = null;
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
+    this.cacheClearCallbacks.forEach(({ reject }) => reject(error));
+    this.cacheClearCallbacks = [];
+  }
+}
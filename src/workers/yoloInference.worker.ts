@@ -0,0 +1,273 @@
+/**
+ * YOLO Inference Worker
+ *
+ * Owns the TensorFlow.js `GraphModel` and runs the full nail segmentation
+ * pipeline off the main thread. The backend is chosen by benchmarking
+ * (see `src/utils/backendManager.ts`); WebGL renders to an OffscreenCanvas
+ * here, and frames arrive as transferred `ImageBitmap`s.
+ * See `src/utils/yoloInferenceService.ts` for the message protocol.
+ */
+
+import * as tf from "@tensorflow/tfjs";
+import {
+  activateBackend,
+  BackendBenchmark,
+  benchmarkBackends,
+  pickFastestBackend,
+  TfBackendName,
+} from "../utils/backendManager";
+import {
+  mergeRoiDetections,
+  preprocessImageForYolo,
+  preprocessRoiForYolo,
+  PreprocessedFrame,
+  processYoloOutput,
+  YoloDetection,
+} from "../utils/yolo";
+import {
+  createModelDescriptor,
+  DEFAULT_MODEL_DESCRIPTOR,
+  ModelDescriptor,
+  parseModelDescriptor,
+} from "../utils/modelDescriptor";
+import { clearModelCache, loadModelWithCache } from "../utils/modelCache";
+import type {
+  InferenceWorkerRequest,
+  InferenceWorkerResponse,
+} from "../utils/yoloInferenceService";
+
+// The DOM lib types `self` as a Window; only the worker messaging surface is used
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<InferenceWorkerRequest>) => void) | null;
+  postMessage(
+    message: InferenceWorkerResponse,
+    transfer?: Transferable[]
+  ): void;
+};
+
+let model: tf.GraphModel | null = null;
+let descriptor: ModelDescriptor = DEFAULT_MODEL_DESCRIPTOR;
+
+/**
+ * One inference pass on a blank input, used for warmup and benchmarking
+ */
+async function runWarmupPass(): Promise<void> {
+  if (!model) return;
+  const { inputSize } = descriptor;
+  const dummyInput = tf.zeros([1, inputSize, inputSize, 3]);
+  const warmupOutputs = (await model.executeAsync(dummyInput)) as tf.Tensor[];
+  // Reading back forces the GPU work to finish before timing stops
+  await Promise.all(warmupOutputs.map((tensor) => tensor.data()));
+  warmupOutputs.forEach((tensor) => tensor.dispose());
+  dummyInput.dispose();
+}
+
+/**
+ * Load the model on `backend`, or benchmark every backend when it is null
+ * or unavailable and keep the fastest
+ */
+async function loadModel(
+  modelUrl: string,
+  backend: TfBackendName | null
+): Promise<void> {
+  try {
+    model?.dispose();
+    model = null;
+
+    let activeBackend: TfBackendName | null = null;
+    if (backend && (await activateBackend(backend))) {
+      activeBackend = backend;
+    } else {
+      if (backend) {
+        console.warn(`Requested backend ${backend} unavailable, benchmarking`);
+      }
+      await tf.ready();
+    }
+
+    const loaded = await loadModelWithCache(modelUrl, (fraction) =>
+      workerScope.postMessage({ type: "loadProgress", fraction })
+    );
+    model = loaded.model;
+    descriptor = parseModelDescriptor(loaded.metadataText);
+
+    // A fixed input shape in the graph wins over stale metadata
+    const graphInputSize = model.inputs[0]?.shape?.[1];
+    if (graphInputSize && graphInputSize > 0) {
+      if (graphInputSize !== descriptor.inputSize) {
+        console.warn(
+          `metadata.yaml imgsz ${descriptor.inputSize} does not match model input ${graphInputSize}`
+        );
+        descriptor = createModelDescriptor(
+          graphInputSize,
+          descriptor.classNames,
+          descriptor.stride,
+          descriptor.task
+        );
+      }
+    }
+
+    console.log(
+      "Model outputs:",
+      model.outputs.map((output) => ({
+        name: output.name,
+        shape: output.shape,
+        dtype: output.dtype,
+      }))
+    );
+
+    let benchmarks: BackendBenchmark[] = [];
+    if (!activeBackend) {
+      // Weights follow the active backend, so one loaded model serves all runs
+      benchmarks = await benchmarkBackends(runWarmupPass);
+      activeBackend = pickFastestBackend(benchmarks);
+      if (!activeBackend || !(await activateBackend(activeBackend))) {
+        throw new Error("No TF.js backend could run the model");
+      }
+    }
+    console.log("Inference worker backend:", activeBackend);
+
+    // Warm up the model with a dummy input so the first frame isn't slow
+    await runWarmupPass();
+
+    workerScope.postMessage({
+      type: "loaded",
+      descriptor,
+      backend: activeBackend,
+      benchmarks,
+      fromCache: loaded.fromCache,
+    });
+  } catch (error) {
+    console.error("Error loading nail segmentation model in worker:", error);
+    workerScope.postMessage({
+      type: "loadError",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+async function detect(
+  message: Extract<InferenceWorkerRequest, { type: "detect" }>
+): Promise<void> {
+  const { requestId, frame, options, rois } = message;
+
+  if (!model) {
+    frame.close();
+    workerScope.postMessage({
+      type: "detectError",
+      requestId,
+      message: "Model not loaded",
+    });
+    return;
+  }
+
+  const startTime = performance.now();
+  const frameWidth = frame.width;
+  const frameHeight = frame.height;
+
+  const inputs: PreprocessedFrame[] = [];
+  let outputs: tf.Tensor[] = [];
+  try {
+    // Full frame, or one model pass per hand crop
+    if (rois.length > 0) {
+      rois.forEach((roi) =>
+        inputs.push(preprocessRoiForYolo(frame, roi, descriptor.inputSize))
+      );
+    } else {
+      inputs.push(preprocessImageForYolo(frame, descriptor.inputSize));
+    }
+
+    let detections: YoloDetection[] = [];
+    for (const input of inputs) {
+      outputs = (await model.executeAsync(input.tensor)) as tf.Tensor[];
+      const result = await processYoloOutput(
+        outputs,
+        input.letterbox,
+        descriptor,
+        options
+      );
+      detections.push(...result.detections);
+
+      outputs.forEach((tensor) => tensor.dispose());
+      outputs = [];
+    }
+
+    // Neighbouring hand crops can see the same nail
+    if (inputs.length > 1) {
+      detections = mergeRoiDetections(detections, options);
+    }
+    inputs.forEach((input) => input.tensor.dispose());
+
+    // Hand mask buffers over to the main thread instead of copying them
+    const transfer: Transferable[] = detections
+      .filter((detection) => detection.mask)
+      .map((detection) => detection.mask!.data.buffer);
+
+    workerScope.postMessage(
+      {
+        type: "detections",
+        requestId,
+        detections,
+        frameWidth,
+        frameHeight,
+        inferenceTime: performance.now() - startTime,
+        numTensors: tf.memory().numTensors,
+        roiCount: rois.length,
+      },
+      transfer
+    );
+  } catch (error) {
+    console.error("Inference error in worker:", error);
+    outputs.forEach((tensor) => tensor.dispose());
+    inputs.forEach((input) => input.tensor.dispose());
+    workerScope.postMessage({
+      type: "detectError",
+      requestId,
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  } finally {
+    // The pixels live in the tensors once preprocessed
+    frame.close();
+  }
+}
+
+workerScope.onmessage = (event) => {
+  const message = event.data;
+  switch (message.type) {
+    case "load":
+      loadModel(message.modelUrl, message.backend).catch((error) => {
+        console.error("Unhandled model load failure in worker:", error);
+        workerScope.postMessage({
+          type: "loadError",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      });
+      break;
+    case "detect":
+      detect(message).catch((error) => {
+        console.error("Unhandled inference failure in worker:", error);
+        workerScope.postMessage({
+          type: "detectError",
+          requestId: message.requestId,
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      });
+      break;
+    case "clearCache":
+      clearModelCache()
+        .then((removed) =>
+          workerScope.postMessage({ type: "cacheCleared", removed })
+        )
+        .catch((error) =>
+          workerScope.postMessage({
+            type: "cacheCleared",
+            removed: 0,
+            error: error instanceof Error ? error.message : "Unknown error",
+          })
+        );
+      break;
+    case "dispose":
+      model?.dispose();
+      model = null;
+      break;
+  }
+};